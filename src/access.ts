@@ -0,0 +1,74 @@
+import type { IPCCallerContext } from './caller-context.ts';
+import { IPCError } from './errors.ts';
+
+export type IPCAccessRule = {
+  origins?: readonly (string | RegExp)[];
+  mainFrameOnly?: boolean;
+  webContentsIds?: readonly number[];
+  allow?: (context: IPCCallerContext) => boolean | Promise<boolean>;
+};
+
+export type IPCAccessPolicy<T extends object = object> = IPCAccessRule & {
+  methods?: { [K in keyof T]?: IPCAccessRule };
+};
+
+function originAllowed(origins: readonly (string | RegExp)[], origin: string | undefined): boolean {
+  if (origin === undefined) {
+    return false;
+  }
+  return origins.some((allowed) => (typeof allowed === 'string' ? allowed === origin : allowed.test(origin)));
+}
+
+async function ruleAllows(rule: IPCAccessRule, context: IPCCallerContext): Promise<boolean> {
+  if (rule.origins && !originAllowed(rule.origins, context.origin)) {
+    return false;
+  }
+  if (rule.mainFrameOnly && !context.isMainFrame) {
+    return false;
+  }
+  if (
+    rule.webContentsIds &&
+    (context.webContentsId === undefined || !rule.webContentsIds.includes(context.webContentsId))
+  ) {
+    return false;
+  }
+  if (rule.allow) {
+    try {
+      return Boolean(await rule.allow(context));
+    } catch {
+      // A failing predicate denies access instead of leaking its error to the renderer.
+      return false;
+    }
+  }
+  return true;
+}
+
+export async function isCallAllowed<T extends object>(
+  policy: IPCAccessPolicy<T> | undefined,
+  context: IPCCallerContext,
+): Promise<boolean> {
+  if (!policy) {
+    return true;
+  }
+  if (!(await ruleAllows(policy, context))) {
+    return false;
+  }
+  const methodRule = policy.methods?.[context.methodName as keyof T];
+  return methodRule ? await ruleAllows(methodRule, context) : true;
+}
+
+// Event subscriptions and manifests belong to no method, so only the service-level rule applies.
+export async function isServiceAllowed<T extends object>(
+  policy: IPCAccessPolicy<T> | undefined,
+  context: IPCCallerContext,
+): Promise<boolean> {
+  return policy ? await ruleAllows(policy, context) : true;
+}
+
+export function accessDeniedError(serviceName: string, methodName: string): Error {
+  return new IPCError(`[electron-ipc] Access denied to service "${serviceName}" method "${methodName}"`, {
+    code: 'IPC_ACCESS_DENIED',
+    serviceName,
+    methodName,
+  });
+}
@@ -1,9 +1,15 @@
 import * as electron from 'electron';
 
-import { SERVICE_EXISTS_CHANNEL, serviceEventChannel, serviceInvokeChannel } from './channels.ts';
+import { createChannels, IPC_PROTOCOL_VERSION } from './channels.ts';
+import { protocolMismatchError, serializeError } from './errors.ts';
+import type { IPCResult } from './errors.ts';
+import { createPortClient } from './ports.ts';
+import type { MessagePortLike, PortClient } from './ports.ts';
+import type { EventReplay, IPCCallMeta, IPCTransport, RendererCallRequest } from './types.ts';
 
 type IpcRendererLike = {
-  invoke(channel: string, methodName: string, args: readonly unknown[]): Promise<unknown>;
+  invoke(channel: string, ...args: unknown[]): Promise<unknown>;
+  send(channel: string, ...args: unknown[]): void;
   sendSync(channel: string, serviceName: string): boolean;
   on(channel: string, listener: (_event: unknown, payload: unknown) => void): void;
   removeListener(channel: string, listener: (_event: unknown, payload: unknown) => void): void;
@@ -13,13 +19,43 @@ type ContextBridgeLike = {
   exposeInMainWorld(name: string, api: unknown): void;
 };
 
+export type EnableIPCOptions = {
+  contextBridge?: ContextBridgeLike;
+  ipcRenderer?: IpcRendererLike;
+  transport?: IPCTransport;
+  namespace?: string;
+};
+
 export type IPCBridgeAPI = {
+  call(
+    serviceName: string,
+    methodName: string,
+    args: readonly unknown[],
+    meta?: IPCCallMeta,
+    transfer?: readonly Transferable[],
+  ): Promise<IPCResult>;
+  cancel(serviceName: string, methodName: string, callId: string, reason?: 'abort' | 'timeout'): void;
+  pull(serviceName: string, callId: string): Promise<IPCResult>;
   invoke(serviceName: string, methodName: string, args: readonly unknown[]): Promise<unknown>;
   hasService(serviceName: string): boolean;
-  on(serviceName: string, eventName: string, callback: (payload: unknown) => void): () => void;
+  on(
+    serviceName: string,
+    eventName: string,
+    callback: (payload: unknown) => void,
+    onReplay?: (payloads: readonly unknown[], limit: number) => void,
+  ): () => void;
+  onServiceDisposed(serviceName: string, callback: () => void): () => void;
+  exposeRendererService(
+    serviceName: string,
+    dispatch: (methodName: string, args: readonly unknown[]) => Promise<IPCResult>,
+  ): () => void;
+  releaseCallbacks(callbackIds: readonly string[]): void;
+  watchServices(callback: (serviceNames: readonly string[]) => void): () => void;
+  listServices(): Promise<IPCResult>;
+  describeService(serviceName: string): Promise<IPCResult>;
 };
 
-const BRIDGE_KEY = 'ipcServiceBridge';
+const SERVICES_WATCH_RETRY_MS = 250;
 
 function resolveDefaultDeps(): { contextBridge: ContextBridgeLike; ipcRenderer: IpcRendererLike } {
   const importedRuntime = electron as unknown as {
@@ -84,30 +120,281 @@ function tryReadRuntime(
   }
 }
 
-export function enableIPC(
-  deps?: { contextBridge: ContextBridgeLike; ipcRenderer: IpcRendererLike },
-): IPCBridgeAPI {
-  const { contextBridge, ipcRenderer } = deps ?? resolveDefaultDeps();
+export function enableIPC(options: EnableIPCOptions = {}): IPCBridgeAPI {
+  const { contextBridge, ipcRenderer } = options.contextBridge && options.ipcRenderer
+    ? { contextBridge: options.contextBridge, ipcRenderer: options.ipcRenderer }
+    : resolveDefaultDeps();
+  const channels = createChannels(options.namespace);
+  const portClients = new Map<string, Promise<PortClient | undefined>>();
+  const portEventListeners = new Map<string, Set<(payload: unknown) => void>>();
+  const rendererServices = new Map<string, (methodName: string, args: readonly unknown[]) => Promise<IPCResult>>();
+  const replayListeners = new Map<string, (payloads: readonly unknown[], limit: number) => void>();
+  let replayBound = false;
+  let subscriptionCounter = 0;
+  let registeredServices: readonly string[] | undefined;
+  let servicesWatched = false;
+  let watchRetry: ReturnType<typeof setTimeout> | undefined;
+  const serviceWatchers = new Set<(serviceNames: readonly string[]) => void>();
+
+  // Main only listens once its first service is exposed, so a watch request sent earlier is lost.
+  // It is sent again once the handshake shows main is listening, retrying while main is not.
+  const requestServicesWatch = (): void => {
+    watchRetry = undefined;
+    if (registeredServices || serviceWatchers.size === 0) {
+      return;
+    }
+    ipcRenderer.send(channels.servicesWatch);
+    void checkProtocol().then((protocol) => {
+      if (protocol.ok) {
+        ipcRenderer.send(channels.servicesWatch);
+      } else if (!handshake) {
+        watchRetry ??= setTimeout(requestServicesWatch, SERVICES_WATCH_RETRY_MS);
+      }
+    });
+  };
+
+  // Main pushes the list of registered services on every change once the bridge starts watching.
+  const watchRegisteredServices = (): void => {
+    if (!servicesWatched) {
+      servicesWatched = true;
+      ipcRenderer.on(channels.servicesChanged, (_event, payload) => {
+        const serviceNames = payload as readonly string[];
+        registeredServices = serviceNames;
+        for (const watcher of [...serviceWatchers]) {
+          watcher(serviceNames);
+        }
+      });
+    }
+    if (!watchRetry) {
+      requestServicesWatch();
+    }
+  };
+
+  const deliverReplay = (replay: EventReplay): void => {
+    const listener = replayListeners.get(replay.subscriptionId);
+    replayListeners.delete(replay.subscriptionId);
+    listener?.(replay.payloads, replay.limit);
+  };
+
+  const handleRendererCall = async (request: RendererCallRequest): Promise<IPCResult> => {
+    const dispatch = rendererServices.get(request.serviceName);
+    if (!dispatch) {
+      return {
+        ok: false,
+        error: {
+          name: 'IPCError',
+          message: `[electron-ipc] Renderer service "${request.serviceName}" is not registered`,
+          code: 'IPC_SERVICE_NOT_FOUND',
+        },
+      };
+    }
+    try {
+      return await dispatch(request.methodName, request.args);
+    } catch (error) {
+      return { ok: false, error: { name: 'Error', message: error instanceof Error ? error.message : String(error) } };
+    }
+  };
+
+  const requestPort = (serviceName: string): Promise<PortClient | undefined> => new Promise((resolve) => {
+    const channel = channels.servicePortFor(serviceName);
+    const listener = (event: unknown) => {
+      ipcRenderer.removeListener(channel, listener);
+      const port = (event as { ports?: readonly MessagePortLike[] }).ports?.[0];
+      if (!port) {
+        portClients.delete(serviceName);
+        resolve(undefined);
+        return;
+      }
+      resolve(createPortClient(serviceName, port, {
+        onEvent(eventName, payload) {
+          for (const callback of portEventListeners.get(channels.serviceEvent(serviceName, eventName)) ?? []) {
+            callback(payload);
+          }
+        },
+        onReplay: deliverReplay,
+        onClose() {
+          portClients.delete(serviceName);
+        },
+      }));
+    };
+    ipcRenderer.on(channel, listener);
+    // Main posts the port before it answers; `false` (or no handler at all) keeps the service on ipc.
+    void (ipcRenderer.invoke(channels.servicePort, serviceName) as Promise<boolean>)
+      .catch(() => false)
+      .then((connected) => {
+        if (!connected) {
+          ipcRenderer.removeListener(channel, listener);
+          resolve(undefined);
+        }
+      });
+  });
+
+  const connect = (serviceName: string): Promise<PortClient | undefined> | undefined => {
+    if (options.transport !== 'message-port') {
+      return undefined;
+    }
+    let client = portClients.get(serviceName);
+    if (!client) {
+      client = requestPort(serviceName);
+      portClients.set(serviceName, client);
+    }
+    return client;
+  };
+
+  // A main without a handshake handler predates the protocol (or is not listening yet), so it counts
+  // as version 0. Failed handshakes are not cached, so the next call asks again.
+  let handshake: Promise<IPCResult> | undefined;
+  const checkProtocol = (): Promise<IPCResult> => {
+    handshake ??= (ipcRenderer.invoke(channels.protocolHandshake, IPC_PROTOCOL_VERSION) as Promise<IPCResult>).catch(() => {
+      handshake = undefined;
+      return { ok: false, error: serializeError(protocolMismatchError(IPC_PROTOCOL_VERSION, 0)) };
+    });
+    return handshake;
+  };
 
   const bridge: IPCBridgeAPI = {
-    invoke(serviceName, methodName, args) {
-      return ipcRenderer.invoke(serviceInvokeChannel(serviceName), methodName, args);
+    async call(serviceName, methodName, args, meta, transfer) {
+      const protocol = await checkProtocol();
+      if (!protocol.ok) {
+        return protocol;
+      }
+      const versionedMeta: IPCCallMeta = { ...meta, protocolVersion: IPC_PROTOCOL_VERSION };
+      const client = await connect(serviceName);
+      if (client) {
+        return await client.request({ type: 'call', methodName, args, meta: versionedMeta }, transfer);
+      }
+      return await (ipcRenderer.invoke(
+        channels.serviceInvoke(serviceName),
+        methodName,
+        args,
+        versionedMeta,
+      ) as Promise<IPCResult>);
+    },
+    cancel(serviceName, methodName, callId, reason = 'abort') {
+      const sendCancel = (client: PortClient | undefined) => {
+        if (client) {
+          client.send({ type: 'cancel', methodName, callId, reason });
+        } else {
+          ipcRenderer.send(channels.callCancel, serviceName, methodName, callId, reason);
+        }
+      };
+      const client = connect(serviceName);
+      if (client) {
+        void client.then(sendCancel);
+      } else {
+        sendCancel(undefined);
+      }
+    },
+    async pull(serviceName, callId) {
+      const client = await connect(serviceName);
+      if (client) {
+        return await client.request({ type: 'next', callId });
+      }
+      return await (ipcRenderer.invoke(channels.streamNext, callId) as Promise<IPCResult>);
+    },
+    async invoke(serviceName, methodName, args) {
+      const result = await bridge.call(serviceName, methodName, args);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      return result.value;
     },
     hasService(serviceName) {
-      return Boolean(ipcRenderer.sendSync(SERVICE_EXISTS_CHANNEL, serviceName));
+      if (registeredServices?.includes(serviceName)) {
+        return true;
+      }
+      return Boolean(ipcRenderer.sendSync(channels.serviceExists, serviceName));
     },
-    on(serviceName, eventName, callback) {
-      const channel = serviceEventChannel(serviceName, eventName);
+    on(serviceName, eventName, callback, onReplay) {
+      const channel = channels.serviceEvent(serviceName, eventName);
+      subscriptionCounter += 1;
+      const subscriptionId = String(subscriptionCounter);
+      if (onReplay) {
+        replayListeners.set(subscriptionId, onReplay);
+        if (!replayBound) {
+          replayBound = true;
+          ipcRenderer.on(channels.eventReplay, (_event, payload) => deliverReplay(payload as EventReplay));
+        }
+      }
       const listener = (_event: unknown, payload: unknown) => {
         callback(payload);
       };
       ipcRenderer.on(channel, listener);
+      if (!portEventListeners.has(channel)) {
+        portEventListeners.set(channel, new Set());
+      }
+      portEventListeners.get(channel)?.add(callback);
+      void connect(serviceName);
+      ipcRenderer.send(channels.serviceSubscribe, serviceName, eventName, subscriptionId);
+      let subscribed = true;
+      return () => {
+        if (!subscribed) {
+          return;
+        }
+        subscribed = false;
+        replayListeners.delete(subscriptionId);
+        ipcRenderer.removeListener(channel, listener);
+        portEventListeners.get(channel)?.delete(callback);
+        ipcRenderer.send(channels.serviceUnsubscribe, serviceName, eventName);
+      };
+    },
+    onServiceDisposed(serviceName, callback) {
+      const channel = channels.serviceDisposed(serviceName);
+      const listener = () => {
+        callback();
+      };
+      ipcRenderer.on(channel, listener);
       return () => {
         ipcRenderer.removeListener(channel, listener);
       };
     },
+    exposeRendererService(serviceName, dispatch) {
+      if (rendererServices.has(serviceName)) {
+        throw new Error(`[electron-ipc] Renderer service "${serviceName}" is already registered`);
+      }
+      rendererServices.set(serviceName, dispatch);
+      return () => {
+        if (rendererServices.get(serviceName) === dispatch) {
+          rendererServices.delete(serviceName);
+        }
+      };
+    },
+    releaseCallbacks(callbackIds) {
+      ipcRenderer.send(channels.callbackRelease, ...callbackIds);
+    },
+    watchServices(callback) {
+      serviceWatchers.add(callback);
+      watchRegisteredServices();
+      if (registeredServices) {
+        callback(registeredServices);
+      }
+      return () => {
+        serviceWatchers.delete(callback);
+      };
+    },
+    async listServices() {
+      const protocol = await checkProtocol();
+      if (!protocol.ok) {
+        return protocol;
+      }
+      return await (ipcRenderer.invoke(channels.servicesList) as Promise<IPCResult>);
+    },
+    async describeService(serviceName) {
+      const protocol = await checkProtocol();
+      if (!protocol.ok) {
+        return protocol;
+      }
+      return await (ipcRenderer.invoke(channels.serviceDescribe, serviceName) as Promise<IPCResult>);
+    },
   };
 
-  contextBridge.exposeInMainWorld(BRIDGE_KEY, bridge);
+  // Bound up front so that main gets IPC_SERVICE_NOT_FOUND for pages that never expose a service.
+  ipcRenderer.on(channels.rendererCall, (_event, payload) => {
+    const request = payload as RendererCallRequest;
+    void handleRendererCall(request).then((result) => {
+      ipcRenderer.send(channels.rendererResult, request.callId, result);
+    });
+  });
+  contextBridge.exposeInMainWorld(channels.bridgeKey, bridge);
   return bridge;
 }
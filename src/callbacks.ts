@@ -0,0 +1,213 @@
+import { CALLBACK_ARG_KEY, CALLBACK_SERVICE_NAME, DEFAULT_CHANNELS } from './channels.ts';
+import type { IPCChannels } from './channels.ts';
+import { IPCError } from './errors.ts';
+import { callRenderer } from './remote-renderer.ts';
+import { onWebContentsReset } from './web-contents.ts';
+import type { WebContentsLike } from './web-contents.ts';
+
+type RemoteCallbackOwner = {
+  methodName: string;
+  // Calls still running with the callback; a call that fails before any succeeded gives it up.
+  pending: number;
+  retained: boolean;
+};
+
+type RemoteCallbackEntry = {
+  key: string;
+  callbackId: string;
+  webContents: WebContentsLike;
+  channels: IPCChannels;
+  // Keyed by service name; the first owner names the callback in errors.
+  owners: Map<string, RemoteCallbackOwner>;
+  released: boolean;
+  listeners: Set<() => void>;
+  stopWatching(): void;
+};
+
+const entriesByKey = new Map<string, RemoteCallbackEntry>();
+const entriesByCallback = new WeakMap<object, RemoteCallbackEntry>();
+const callbacksByKey = new Map<string, (...args: unknown[]) => Promise<unknown>>();
+
+function isCallbackHandle(value: unknown): value is { [CALLBACK_ARG_KEY]: string } {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>)[CALLBACK_ARG_KEY] === 'string';
+}
+
+function ownerOf(entry: RemoteCallbackEntry): { serviceName: string; methodName: string } {
+  const [serviceName, owner] = entry.owners.entries().next().value as [string, RemoteCallbackOwner];
+  return { serviceName, methodName: owner.methodName };
+}
+
+function releaseEntry(entry: RemoteCallbackEntry, notifyRenderer: boolean): void {
+  if (entry.released) {
+    return;
+  }
+  entry.released = true;
+  entry.stopWatching();
+  entriesByKey.delete(entry.key);
+  callbacksByKey.delete(entry.key);
+  if (notifyRenderer && !entry.webContents.isDestroyed?.()) {
+    void callRenderer(
+      entry.webContents,
+      { serviceName: CALLBACK_SERVICE_NAME, methodName: 'release', args: [entry.callbackId] },
+      { label: 'Callback release', serviceName: ownerOf(entry).serviceName, methodName: 'release' },
+      undefined,
+      entry.channels,
+    ).catch(() => undefined);
+  }
+  for (const listener of [...entry.listeners]) {
+    try {
+      listener();
+    } catch {
+      // Release listeners must not block remaining cleanup.
+    }
+  }
+  entry.listeners.clear();
+}
+
+function dropOwner(entry: RemoteCallbackEntry, serviceName: string): void {
+  // The last owner keeps its name so calls after the release report it.
+  if (entry.owners.size === 1) {
+    releaseEntry(entry, true);
+  } else {
+    entry.owners.delete(serviceName);
+  }
+}
+
+function createRemoteCallback(
+  webContents: WebContentsLike,
+  callbackId: string,
+  serviceName: string,
+  methodName: string,
+  channels: IPCChannels,
+): RemoteCallbackEntry {
+  const key = `${channels.namespace}:${webContents.id}:${callbackId}`;
+  const existing = entriesByKey.get(key);
+  if (existing) {
+    if (!existing.owners.has(serviceName)) {
+      existing.owners.set(serviceName, { methodName, pending: 0, retained: false });
+    }
+    return existing;
+  }
+
+  const entry: RemoteCallbackEntry = {
+    key,
+    callbackId,
+    webContents,
+    channels,
+    owners: new Map([[serviceName, { methodName, pending: 0, retained: false }]]),
+    released: false,
+    listeners: new Set(),
+    stopWatching: onWebContentsReset(webContents, () => releaseEntry(entry, false)),
+  };
+  const callback = (...args: unknown[]): Promise<unknown> => {
+    const { serviceName, methodName } = ownerOf(entry);
+    const label = `Callback passed to service "${serviceName}" method "${methodName}"`;
+    const result = entry.released
+      ? Promise.reject(new IPCError(`[electron-ipc] ${label} was released`, {
+        code: 'IPC_CALLBACK_RELEASED',
+        serviceName,
+        methodName,
+      }))
+      : callRenderer(webContents, { serviceName: CALLBACK_SERVICE_NAME, methodName: callbackId, args }, {
+        label,
+        serviceName,
+        methodName,
+      }, undefined, channels);
+    // Services usually fire callbacks without awaiting them; only callers that await see failures.
+    result.catch(() => undefined);
+    return result;
+  };
+  entriesByKey.set(key, entry);
+  entriesByCallback.set(callback, entry);
+  callbacksByKey.set(key, callback);
+  return entry;
+}
+
+// Replaces callback handles sent by the renderer with functions that invoke the original callback.
+// The same renderer function always maps to the same main-side function, so services can use it as a key.
+// Callers report the outcome through settle() so callbacks only ever passed to failed calls are released.
+export function hydrateCallbacks(
+  args: readonly unknown[],
+  sender: WebContentsLike | undefined,
+  serviceName: string,
+  methodName: string,
+  channels: IPCChannels = DEFAULT_CHANNELS,
+): { args: readonly unknown[]; settle(succeeded: boolean): void } {
+  if (!sender || !args.some(isCallbackHandle)) {
+    return { args, settle: () => undefined };
+  }
+  const claims = new Map<RemoteCallbackEntry, RemoteCallbackOwner>();
+  const hydrated = args.map((arg) => {
+    if (!isCallbackHandle(arg)) {
+      return arg;
+    }
+    const entry = createRemoteCallback(sender, arg[CALLBACK_ARG_KEY], serviceName, methodName, channels);
+    const owner = entry.owners.get(serviceName) as RemoteCallbackOwner;
+    if (!claims.has(entry)) {
+      owner.pending += 1;
+      claims.set(entry, owner);
+    }
+    return callbacksByKey.get(entry.key);
+  });
+  return {
+    args: hydrated,
+    settle(succeeded) {
+      for (const [entry, owner] of claims) {
+        owner.pending -= 1;
+        if (succeeded) {
+          owner.retained = true;
+        } else if (!owner.retained && owner.pending === 0 && !entry.released && entry.owners.get(serviceName) === owner) {
+          dropOwner(entry, serviceName);
+        }
+      }
+    },
+  };
+}
+
+export function releaseRemoteCallback(callback: (...args: never[]) => unknown): void {
+  const entry = entriesByCallback.get(callback);
+  if (entry) {
+    releaseEntry(entry, true);
+  }
+}
+
+export function onRemoteCallbackReleased(callback: (...args: never[]) => unknown, listener: () => void): () => void {
+  const entry = entriesByCallback.get(callback);
+  if (!entry) {
+    return () => undefined;
+  }
+  if (entry.released) {
+    listener();
+    return () => undefined;
+  }
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+export function releaseRendererCallbacks(
+  webContentsId: number | undefined,
+  callbackIds: readonly string[],
+  namespace: string = DEFAULT_CHANNELS.namespace,
+): void {
+  for (const callbackId of callbackIds) {
+    const entry = entriesByKey.get(`${namespace}:${webContentsId}:${callbackId}`);
+    if (entry) {
+      releaseEntry(entry, false);
+    }
+  }
+}
+
+export function releaseServiceCallbacks(serviceName: string, namespace: string = DEFAULT_CHANNELS.namespace): void {
+  for (const entry of [...entriesByKey.values()]) {
+    if (entry.owners.has(serviceName) && entry.channels.namespace === namespace) {
+      dropOwner(entry, serviceName);
+    }
+  }
+}
+
+export function resetRemoteCallbacksForTests(): void {
+  entriesByKey.clear();
+  callbacksByKey.clear();
+}
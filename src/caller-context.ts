@@ -0,0 +1,79 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { WebContentsLike } from './web-contents.ts';
+
+export type WebFrameLike = {
+  url?: string;
+  origin?: string;
+  processId?: number;
+  routingId?: number;
+  parent?: WebFrameLike | null;
+};
+
+export type IpcMainInvokeEventLike = {
+  sender?: WebContentsLike;
+  senderFrame?: WebFrameLike | null;
+  processId?: number;
+  frameId?: number;
+};
+
+export type IPCCallerContext = {
+  serviceName: string;
+  methodName: string;
+  signal: AbortSignal;
+  correlationId: string | undefined;
+  webContentsId: number | undefined;
+  processId: number | undefined;
+  frameId: number | undefined;
+  frameUrl: string | undefined;
+  origin: string | undefined;
+  isMainFrame: boolean;
+  sender: WebContentsLike | undefined;
+};
+
+const callerStorage = new AsyncLocalStorage<IPCCallerContext>();
+
+function originFromUrl(url: string | undefined): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === 'null' ? undefined : parsed.origin;
+  } catch {
+    return undefined;
+  }
+}
+
+export function createCallerContext(
+  event: IpcMainInvokeEventLike | undefined,
+  serviceName: string,
+  methodName: string,
+  signal: AbortSignal,
+  correlationId?: string,
+): IPCCallerContext {
+  const frame = event?.senderFrame ?? undefined;
+  const frameUrl = frame?.url;
+  return {
+    serviceName,
+    methodName,
+    signal,
+    correlationId,
+    webContentsId: event?.sender?.id,
+    processId: event?.processId ?? frame?.processId,
+    frameId: event?.frameId ?? frame?.routingId,
+    frameUrl,
+    origin: frame?.origin ?? originFromUrl(frameUrl),
+    // Electron reports a null senderFrame once the frame is gone; only calls from main itself have no event.
+    isMainFrame: frame ? !frame.parent : event === undefined,
+    sender: event?.sender,
+  };
+}
+
+export function runWithCallerContext<R>(context: IPCCallerContext, callback: () => R): R {
+  return callerStorage.run(context, callback);
+}
+
+export function getCallerContext(): IPCCallerContext | undefined {
+  return callerStorage.getStore();
+}
@@ -1,10 +1,68 @@
 export const IPC_NAMESPACE = 'electron-ipc';
-export const SERVICE_EXISTS_CHANNEL = `${IPC_NAMESPACE}:service:exists`;
+export const CALLBACK_SERVICE_NAME = `${IPC_NAMESPACE}:callbacks`;
+export const CALLBACK_ARG_KEY = '__electronIpcCallback';
+export const STATE_EVENT_NAME = `${IPC_NAMESPACE}:state`;
+// Bump when the messages exchanged between preload and main change shape; main accepts bridges
+// from MIN_IPC_PROTOCOL_VERSION up to its own version.
+export const IPC_PROTOCOL_VERSION = 1;
+export const MIN_IPC_PROTOCOL_VERSION = 1;
 
-export function serviceInvokeChannel(serviceName: string): string {
-  return `${IPC_NAMESPACE}:service:${serviceName}:invoke`;
+export type IPCChannels = {
+  namespace: string;
+  bridgeKey: string;
+  protocolHandshake: string;
+  serviceExists: string;
+  servicesWatch: string;
+  servicesChanged: string;
+  servicesList: string;
+  serviceDescribe: string;
+  serviceSubscribe: string;
+  serviceUnsubscribe: string;
+  callCancel: string;
+  streamNext: string;
+  servicePort: string;
+  rendererCall: string;
+  rendererResult: string;
+  eventReplay: string;
+  callbackRelease: string;
+  serviceInvoke(serviceName: string): string;
+  serviceEvent(serviceName: string, eventName: string): string;
+  serviceDisposed(serviceName: string): string;
+  servicePortFor(serviceName: string): string;
+};
+
+// The default namespace keeps the original bridge key so existing preloads and pages keep working.
+export function bridgeKey(namespace: string = IPC_NAMESPACE): string {
+  return namespace === IPC_NAMESPACE ? 'ipcServiceBridge' : `ipcServiceBridge:${namespace}`;
 }
 
-export function serviceEventChannel(serviceName: string, eventName: string): string {
-  return `${IPC_NAMESPACE}:service:${serviceName}:event:${eventName}`;
+export function createChannels(namespace: string = IPC_NAMESPACE): IPCChannels {
+  if (!namespace || /[\s:]/.test(namespace)) {
+    throw new Error(`[electron-ipc] Invalid IPC namespace "${namespace}"; use a non-empty name without colons or spaces`);
+  }
+  return {
+    namespace,
+    bridgeKey: bridgeKey(namespace),
+    protocolHandshake: `${namespace}:protocol:handshake`,
+    serviceExists: `${namespace}:service:exists`,
+    servicesWatch: `${namespace}:services:watch`,
+    servicesChanged: `${namespace}:services:changed`,
+    servicesList: `${namespace}:services:list`,
+    serviceDescribe: `${namespace}:service:describe`,
+    serviceSubscribe: `${namespace}:service:subscribe`,
+    serviceUnsubscribe: `${namespace}:service:unsubscribe`,
+    callCancel: `${namespace}:call:cancel`,
+    streamNext: `${namespace}:stream:next`,
+    servicePort: `${namespace}:service:port`,
+    rendererCall: `${namespace}:renderer:call`,
+    rendererResult: `${namespace}:renderer:result`,
+    eventReplay: `${namespace}:event:replay`,
+    callbackRelease: `${namespace}:callback:release`,
+    serviceInvoke: (serviceName) => `${namespace}:service:${serviceName}:invoke`,
+    serviceEvent: (serviceName, eventName) => `${namespace}:service:${serviceName}:event:${eventName}`,
+    serviceDisposed: (serviceName) => `${namespace}:service:${serviceName}:disposed`,
+    servicePortFor: (serviceName) => `${namespace}:service:${serviceName}:port`,
+  };
 }
+
+export const DEFAULT_CHANNELS = createChannels();
@@ -0,0 +1,153 @@
+export type SerializedError = {
+  name: string;
+  message: string;
+  code?: unknown;
+  stack?: string;
+  cause?: SerializedError | { value: unknown };
+  fields?: Record<string, unknown>;
+};
+
+export type IPCResult = { ok: true; value: unknown; stream?: boolean } | { ok: false; error: SerializedError };
+
+export type IPCErrorCode =
+  | 'IPC_ABORTED'
+  | 'IPC_ACCESS_DENIED'
+  | 'IPC_CALLBACK_RELEASED'
+  | 'IPC_HOST_EXITED'
+  | 'IPC_METHOD_NOT_FOUND'
+  | 'IPC_PROTOCOL_MISMATCH'
+  | 'IPC_SERVICE_NOT_FOUND'
+  | 'IPC_TIMEOUT'
+  | 'IPC_VALIDATION_FAILED';
+
+type ErrorCtor = abstract new (...args: never[]) => Error;
+
+const MAX_CAUSE_DEPTH = 8;
+const RESERVED_ERROR_KEYS = new Set(['name', 'message', 'stack', 'cause', 'code']);
+
+export class IPCError extends Error {
+  readonly code: IPCErrorCode | (string & {});
+  readonly serviceName?: string;
+  readonly methodName?: string;
+
+  constructor(
+    message: string,
+    options: { code: IPCErrorCode | (string & {}); serviceName?: string; methodName?: string; cause?: unknown },
+  ) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = 'IPCError';
+    this.code = options.code;
+    this.serviceName = options.serviceName;
+    this.methodName = options.methodName;
+  }
+}
+
+const errorClasses = new Map<string, ErrorCtor>([['IPCError', IPCError]]);
+
+export function registerIPCError(errorClass: ErrorCtor, name: string = errorClass.name): void {
+  errorClasses.set(name, errorClass);
+}
+
+function isTransferableField(value: unknown): boolean {
+  return typeof value !== 'function' && typeof value !== 'symbol';
+}
+
+export function serializeError(error: unknown, options: { stack?: boolean } = {}, depth = 0): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const serialized: SerializedError = {
+    name: error.name || error.constructor.name,
+    message: error.message,
+  };
+  const code = (error as { code?: unknown }).code;
+  if (code !== undefined && isTransferableField(code)) {
+    serialized.code = code;
+  }
+  if (options.stack && error.stack) {
+    serialized.stack = error.stack;
+  }
+  if (error.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    serialized.cause = error.cause instanceof Error
+      ? serializeError(error.cause, options, depth + 1)
+      : { value: isTransferableField(error.cause) ? error.cause : String(error.cause) };
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(error)) {
+    if (!RESERVED_ERROR_KEYS.has(key) && isTransferableField(value)) {
+      fields[key] = value;
+    }
+  }
+  if (Object.keys(fields).length > 0) {
+    serialized.fields = fields;
+  }
+  return serialized;
+}
+
+function isSerializedError(value: unknown): value is SerializedError {
+  return Boolean(value) && typeof (value as SerializedError).message === 'string'
+    && typeof (value as SerializedError).name === 'string';
+}
+
+export function deserializeError(serialized: SerializedError): Error {
+  const errorClass = errorClasses.get(serialized.name);
+  const error = Object.create((errorClass ?? Error).prototype) as Error;
+  Object.defineProperty(error, 'message', { value: serialized.message, writable: true, configurable: true });
+  if (error.name !== serialized.name) {
+    Object.defineProperty(error, 'name', { value: serialized.name, writable: true, configurable: true });
+  }
+  Object.defineProperty(error, 'stack', {
+    value: serialized.stack ?? `${serialized.name}: ${serialized.message}`,
+    writable: true,
+    configurable: true,
+  });
+  if (serialized.fields) {
+    Object.assign(error, serialized.fields);
+  }
+  if (serialized.code !== undefined) {
+    Object.assign(error, { code: serialized.code });
+  }
+  if (serialized.cause !== undefined) {
+    const cause = isSerializedError(serialized.cause) ? deserializeError(serialized.cause) : serialized.cause.value;
+    Object.defineProperty(error, 'cause', { value: cause, writable: true, configurable: true });
+  }
+  return error;
+}
+
+export function serializeMethodError(
+  serviceName: string,
+  methodName: string,
+  error: unknown,
+  options: { stack?: boolean } = {},
+): SerializedError {
+  const serialized = serializeError(error, options);
+  if (serialized.message.startsWith('[electron-ipc] ')) {
+    return serialized;
+  }
+  return {
+    ...serialized,
+    message: `[electron-ipc] Service "${serviceName}" method "${methodName}" failed: ${serialized.message}`,
+  };
+}
+
+export function callTimeoutError(serviceName: string, methodName: string, elapsedMs: number): IPCError {
+  const error = new IPCError(
+    `[electron-ipc] Service "${serviceName}" method "${methodName}" timed out after ${elapsedMs}ms`,
+    { code: 'IPC_TIMEOUT', serviceName, methodName },
+  );
+  return Object.assign(error, { elapsedMs });
+}
+
+export function stripElectronInvokePrefix(message: string): string {
+  return message.replace(/^Error invoking remote method '[^']*': (?:[A-Za-z]*Error: )?/, '');
+}
+
+export function protocolMismatchError(bridgeVersion: unknown, mainVersion: number): IPCError {
+  return new IPCError(
+    `[electron-ipc] Protocol version mismatch: preload bridge uses version ${String(bridgeVersion ?? 0)}, main uses version ${mainVersion}. `
+      + 'Build the preload and main process from the same @rupertsworld/electron-ipc release.',
+    { code: 'IPC_PROTOCOL_MISMATCH' },
+  );
+}
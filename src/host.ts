@@ -0,0 +1,121 @@
+import { parentPort } from 'node:worker_threads';
+
+import { getCallerContext, runWithCallerContext } from './caller-context.ts';
+import type { IPCCallerContext } from './caller-context.ts';
+import { IPCError, serializeError } from './errors.ts';
+import type { IPCResult } from './errors.ts';
+import { IPCService } from './ipc-service.ts';
+import { findServiceMethod, listServiceMethods, methodNotFoundError } from './methods.ts';
+import { STATE_EVENT_NAME } from './channels.ts';
+import { isAsyncIterable } from './streams.ts';
+import type { IPCStateUpdate } from './types.ts';
+
+export type HostPortLike = {
+  postMessage(message: unknown): void;
+  on(eventName: 'message', listener: (message: unknown) => void): unknown;
+};
+
+export type HostCallContext = Omit<IPCCallerContext, 'signal' | 'sender'>;
+
+export type HostRequest =
+  | { type: 'call'; id: number; methodName: string; args: readonly unknown[]; context: HostCallContext }
+  | { type: 'cancel'; id: number }
+  | { type: 'dispose' };
+
+export type HostMessage =
+  | { type: 'ready'; serviceName: string; methods: string[]; replay: Record<string, number>; state?: IPCStateUpdate }
+  | { type: 'result'; id: number; result: IPCResult }
+  | { type: 'event'; eventName: string; payload: unknown; webContentsIds?: number[] };
+
+type ServiceCtor<T> = new () => T;
+
+function resolveDefaultPort(): HostPortLike {
+  const utilityPort = (process as { parentPort?: HostPortLike }).parentPort;
+  if (utilityPort) {
+    return utilityPort;
+  }
+  if (parentPort) {
+    return parentPort;
+  }
+  throw new Error('[electron-ipc] hostIPC() must run in a utilityProcess or worker thread, or be given a port');
+}
+
+// Electron's utilityProcess parentPort delivers MessageEvents, worker_threads deliver the raw value.
+function unwrapMessage(message: unknown): HostRequest {
+  const candidate = message as { type?: unknown; data?: unknown };
+  return (candidate.type === undefined && candidate.data !== undefined ? candidate.data : message) as HostRequest;
+}
+
+export function hostIPC<T extends object>(
+  serviceOrCtor: T | ServiceCtor<T>,
+  options: { name?: string; port?: HostPortLike } = {},
+): T {
+  const port = options.port ?? resolveDefaultPort();
+  const isCtor = typeof serviceOrCtor === 'function';
+  const service = isCtor ? new (serviceOrCtor as ServiceCtor<T>)() : serviceOrCtor;
+  const serviceName = options.name ?? service.constructor.name;
+  const calls = new Map<number, { controller: AbortController; methodName: string }>();
+  const post = (message: HostMessage) => port.postMessage(message);
+
+  if (service instanceof IPCService) {
+    service.setEmitHook((eventName, payload, webContentsIds) => {
+      post({ type: 'event', eventName: String(eventName), payload, webContentsIds: webContentsIds && [...webContentsIds] });
+    });
+  }
+
+  const runCall = async (request: Extract<HostRequest, { type: 'call' }>): Promise<IPCResult> => {
+    const method = findServiceMethod(service, request.methodName, undefined);
+    if (!method) {
+      return { ok: false, error: serializeError(methodNotFoundError(serviceName, request.methodName)) };
+    }
+    const controller = new AbortController();
+    calls.set(request.id, { controller, methodName: request.methodName });
+    const context: IPCCallerContext = { ...request.context, signal: controller.signal, sender: undefined };
+    try {
+      const value = await runWithCallerContext(context, () => Promise.resolve(method.apply(service, [...request.args])));
+      if (isAsyncIterable(value)) {
+        throw new Error(
+          `[electron-ipc] Service "${serviceName}" method "${request.methodName}" returned a stream, which hosted services do not support`,
+        );
+      }
+      return { ok: true, value };
+    } catch (error) {
+      return { ok: false, error: serializeError(error, { stack: true }) };
+    } finally {
+      calls.delete(request.id);
+    }
+  };
+
+  port.on('message', (message) => {
+    const request = unwrapMessage(message);
+    if (request.type === 'call') {
+      void runCall(request).then((result) => {
+        try {
+          post({ type: 'result', id: request.id, result });
+        } catch (error) {
+          post({ type: 'result', id: request.id, result: { ok: false, error: serializeError(error) } });
+        }
+      });
+    } else if (request.type === 'cancel') {
+      const call = calls.get(request.id);
+      call?.controller.abort(new IPCError(`[electron-ipc] Service "${serviceName}" method "${call.methodName}" was aborted`, {
+        code: 'IPC_ABORTED',
+        serviceName,
+        methodName: call.methodName,
+      }));
+    } else if (request.type === 'dispose') {
+      void Promise.resolve((service as { dispose?: () => unknown }).dispose?.()).catch(() => undefined);
+    }
+  });
+
+  post({
+    type: 'ready',
+    serviceName,
+    methods: listServiceMethods(service, undefined),
+    replay: service instanceof IPCService ? service.getReplayLimits() : {},
+    state: service instanceof IPCService ? service.getReplay(STATE_EVENT_NAME, 0).payloads[0] as IPCStateUpdate : undefined,
+  });
+  return service;
+}
+
+export { getCallerContext, IPCService };
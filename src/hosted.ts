@@ -0,0 +1,160 @@
+import { getCallerContext } from './caller-context.ts';
+import type { IPCCallerContext } from './caller-context.ts';
+import { deserializeError, IPCError } from './errors.ts';
+import type { HostCallContext, HostMessage, HostRequest } from './host.ts';
+import { STATE_EVENT_NAME } from './channels.ts';
+import { IPCService } from './ipc-service.ts';
+import type { EventMap, IPCStateUpdate } from './types.ts';
+
+export type ServiceHostLike = {
+  postMessage(message: unknown): void;
+  on(eventName: 'message' | 'exit' | 'error', listener: (value: unknown) => void): unknown;
+};
+
+const HOST_READY_TIMEOUT_MS = 10_000;
+
+type PendingHostCall = {
+  methodName: string;
+  resolve(value: unknown): void;
+  reject(error: Error): void;
+};
+
+function hostExitedError(serviceName: string, reason: string, methodName?: string): IPCError {
+  const pending = methodName === undefined ? '' : ` while method "${methodName}" was pending`;
+  return new IPCError(`[electron-ipc] Host of service "${serviceName}" ${reason}${pending}`, {
+    code: 'IPC_HOST_EXITED',
+    serviceName,
+    methodName,
+  });
+}
+
+function toHostContext(context: IPCCallerContext | undefined, methodName: string, serviceName: string): HostCallContext {
+  return {
+    serviceName,
+    methodName,
+    correlationId: context?.correlationId,
+    webContentsId: context?.webContentsId,
+    processId: context?.processId,
+    frameId: context?.frameId,
+    frameUrl: context?.frameUrl,
+    origin: context?.origin,
+    isMainFrame: context?.isMainFrame ?? true,
+  };
+}
+
+// Resolves once the host reports its service name and methods, with a main-side stand-in whose
+// methods forward to the host and whose events mirror the ones the hosted service emits.
+export function connectServiceHost(
+  host: ServiceHostLike,
+  nameOverride?: string,
+  readyTimeoutMs = HOST_READY_TIMEOUT_MS,
+): Promise<{ serviceName: string; service: IPCService }> {
+  return new Promise((resolve, reject) => {
+    const service = new IPCService<EventMap>();
+    // The stand-in keeps its own copy of the hosted state so that it can send snapshots to new subscribers.
+    const applyState = (update: IPCStateUpdate<Record<string, unknown>>) => {
+      if (update.state !== undefined) {
+        service.initState(update.state);
+      } else {
+        service.setState(update.patch ?? {});
+      }
+    };
+    const pending = new Map<number, PendingHostCall>();
+    let serviceName = nameOverride ?? '(unknown)';
+    let ready = false;
+    let exitError: IPCError | undefined;
+    let nextCallId = 0;
+
+    const post = (message: HostRequest) => host.postMessage(message);
+
+    const fail = (reason: string, notReadyReason = `${reason} before it was ready`) => {
+      if (exitError) {
+        return;
+      }
+      exitError = hostExitedError(serviceName, reason);
+      for (const call of [...pending.values()]) {
+        call.reject(hostExitedError(serviceName, reason, call.methodName));
+      }
+      if (!ready) {
+        clearTimeout(readyTimer);
+        reject(new Error(`[electron-ipc] Service host ${notReadyReason}`));
+      }
+    };
+    const readyTimer = setTimeout(() => {
+      const reason = `did not report ready within ${readyTimeoutMs}ms`;
+      fail(reason, reason);
+    }, readyTimeoutMs);
+
+    const forward = (methodName: string) => (...args: unknown[]): Promise<unknown> => {
+      if (exitError) {
+        return Promise.reject(exitError);
+      }
+      nextCallId += 1;
+      const id = nextCallId;
+      const context = getCallerContext();
+      const onAbort = () => post({ type: 'cancel', id });
+      return new Promise((resolveCall, rejectCall) => {
+        const settle = () => {
+          pending.delete(id);
+          context?.signal.removeEventListener('abort', onAbort);
+        };
+        pending.set(id, {
+          methodName,
+          resolve: (value) => {
+            settle();
+            resolveCall(value);
+          },
+          reject: (error) => {
+            settle();
+            rejectCall(error);
+          },
+        });
+        context?.signal.addEventListener('abort', onAbort, { once: true });
+        try {
+          post({ type: 'call', id, methodName, args, context: toHostContext(context, methodName, serviceName) });
+        } catch (error) {
+          pending.get(id)?.reject(error as Error);
+        }
+      });
+    };
+
+    host.on('message', (value) => {
+      const message = value as HostMessage;
+      if (message.type === 'ready' && !ready) {
+        ready = true;
+        clearTimeout(readyTimer);
+        serviceName = nameOverride ?? message.serviceName;
+        for (const methodName of message.methods) {
+          Object.defineProperty(service, methodName, { value: forward(methodName), enumerable: true });
+        }
+        Object.defineProperty(service, 'dispose', { value: () => post({ type: 'dispose' }) });
+        for (const [eventName, limit] of Object.entries(message.replay ?? {})) {
+          service.replayEvent(eventName, limit);
+        }
+        if (message.state) {
+          applyState(message.state as IPCStateUpdate<Record<string, unknown>>);
+        }
+        resolve({ serviceName, service });
+      } else if (message.type === 'result') {
+        const call = pending.get(message.id);
+        if (message.result.ok) {
+          call?.resolve(message.result.value);
+        } else {
+          call?.reject(deserializeError(message.result.error));
+        }
+      } else if (message.type === 'event') {
+        if (message.eventName === STATE_EVENT_NAME) {
+          applyState(message.payload as IPCStateUpdate<Record<string, unknown>>);
+        } else if (message.webContentsIds) {
+          service.emitTo(message.webContentsIds, message.eventName, message.payload);
+        } else {
+          service.emit(message.eventName, message.payload);
+        }
+      }
+    });
+
+    host.on('exit', (exitCode: unknown) => fail(`exited with code ${String(exitCode)}`));
+    // A worker that throws emits 'error' before 'exit'; without a listener Node rethrows it in main.
+    host.on('error', (error: unknown) => fail(`failed: ${error instanceof Error ? error.message : String(error)}`));
+  });
+}
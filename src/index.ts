@@ -1,4 +1,76 @@
-export { exposeIPC, getPreloadPath, IPCService, resetIPCRegistryForTests } from './main.ts';
+export {
+  createIPCRegistry,
+  describeIPCService,
+  exposeHostedIPC,
+  exposeIPC,
+  getCallerContext,
+  getPreloadPath,
+  IPCService,
+  listenIPC,
+  listIPCServices,
+  onRemoteCallbackReleased,
+  releaseRemoteCallback,
+  resetIPCRegistryForTests,
+  unexposeIPC,
+  useIPCMiddleware,
+} from './main.ts';
+export { resolveRendererIPC } from './remote-renderer.ts';
+export type { ResolveRendererIPCOptions } from './remote-renderer.ts';
 export { enableIPC } from './bridge.ts';
-export { resolveIPC, resetRendererBridgeForTests } from './renderer.ts';
-export type { EventMap, AsyncService } from './types.ts';
+export { IPC_PROTOCOL_VERSION } from './channels.ts';
+export { hostIPC } from './host.ts';
+export type { HostPortLike } from './host.ts';
+export type { ServiceHostLike } from './hosted.ts';
+export { createTestIPC } from './testing.ts';
+export type { TestIPC, TestIPCCall, TestIPCEvent, TestWindow, TestWindowOptions } from './testing.ts';
+export type { EnableIPCOptions } from './bridge.ts';
+export { IPCError, registerIPCError } from './errors.ts';
+export { defineIPCSchemas } from './schema.ts';
+export {
+  configureIPC,
+  createIPCRegistry as createRendererIPCRegistry,
+  describeService,
+  exposeRendererIPC,
+  getIPCStore,
+  listServices,
+  mockIPC,
+  releaseIPCCallback,
+  resolveIPC,
+  resolveIPCAsync,
+  resetRendererBridgeForTests,
+  waitForService,
+  withCallOptions,
+} from './renderer.ts';
+export type {
+  EventMap,
+  AsyncService,
+  CreateIPCRegistryOptions,
+  IPCCallOptions,
+  IPCEventManifest,
+  IPCEventTarget,
+  IPCInterceptor,
+  IPCInterceptorCall,
+  IPCMethodCallOptions,
+  IPCMethodManifest,
+  IPCRetryPolicy,
+  IPCSchemaManifest,
+  IPCServiceManifest,
+  IPCStateStore,
+  IPCTransport,
+  ResolveIPCOptions,
+  WaitForServiceOptions,
+} from './types.ts';
+export type { ExposeIPCOptions, IPCRegistry, IPCServiceDescriptions } from './main.ts';
+export type { IPCRendererRegistry } from './renderer.ts';
+export type { IPCMock, IPCMockCall } from './mock.ts';
+export type { IPCAccessPolicy, IPCAccessRule } from './access.ts';
+export type { IPCCallerContext } from './caller-context.ts';
+export type { IPCMiddleware, IPCMiddlewareCall, IPCMiddlewareNext } from './middleware.ts';
+export type { IPCErrorCode, IPCResult, SerializedError } from './errors.ts';
+export type {
+  IPCMethodSchema,
+  IPCSchemaMethods,
+  IPCServiceSchemas,
+  IPCValidationIssue,
+  StandardSchemaV1,
+} from './schema.ts';
@@ -1,15 +1,51 @@
-import type { EventMap } from './types.ts';
+import { getCallerContext } from './caller-context.ts';
+import { STATE_EVENT_NAME } from './channels.ts';
+import { RESERVED_MEMBERS } from './methods.ts';
+import type { EventMap, IPCEventTarget, IPCStateUpdate } from './types.ts';
 
 type Listener<T> = (payload: T) => void;
 
+type ReplayEntry = {
+  payload: unknown;
+  webContentsIds?: readonly number[];
+};
+
 type EmitHook<TEvents extends EventMap> = <K extends keyof TEvents>(
   eventName: K,
   payload: TEvents[K],
+  webContentsIds?: readonly number[],
 ) => void;
 
-export class IPCService<TEvents extends EventMap = EventMap> {
+function resolveTargetIds(target: IPCEventTarget): number[] {
+  const items = Array.isArray(target) ? target : [target];
+  const ids = new Set<number>();
+  for (const item of items as readonly unknown[]) {
+    if (item === 'caller') {
+      const callerId = getCallerContext()?.webContentsId;
+      if (callerId === undefined) {
+        throw new Error('[electron-ipc] emitTo("caller") can only be used while handling an IPC call');
+      }
+      ids.add(callerId);
+    } else if (typeof item === 'number') {
+      ids.add(item);
+    } else if (item && typeof item === 'object' && 'webContents' in item) {
+      ids.add((item as { webContents: { id: number } }).webContents.id);
+    } else if (item && typeof item === 'object' && 'id' in item) {
+      ids.add((item as { id: number }).id);
+    } else {
+      throw new Error(`[electron-ipc] Invalid event target: ${String(item)}`);
+    }
+  }
+  return [...ids];
+}
+
+export class IPCService<TEvents extends EventMap = EventMap, TState extends object = Record<string, unknown>> {
   private readonly listeners = new Map<keyof TEvents, Set<Listener<TEvents[keyof TEvents]>>>();
-  private emitHook?: EmitHook<TEvents>;
+  private emitHook: EmitHook<TEvents> | undefined = undefined;
+  private readonly replayLimits = new Map<keyof TEvents, number>();
+  private readonly replayBuffers = new Map<keyof TEvents, ReplayEntry[]>();
+  private state?: TState;
+  private stateVersion = 0;
 
   on<K extends keyof TEvents>(eventName: K, listener: Listener<TEvents[K]>): this {
     this.ensureListenerSet(eventName).add(listener as Listener<TEvents[keyof TEvents]>);
@@ -37,24 +73,120 @@ export class IPCService<TEvents extends EventMap = EventMap> {
   }
 
   emit<K extends keyof TEvents>(eventName: K, payload: TEvents[K]): this {
-    const listeners = this.listeners.get(eventName);
-    if (listeners) {
-      for (const listener of [...listeners]) {
-        try {
-          (listener as Listener<TEvents[K]>)(payload);
-        } catch {
-          // Listener failures must not block remaining listeners.
-        }
-      }
-    }
+    this.notifyListeners(eventName, payload);
     this.emitHook?.(eventName, payload);
+    this.recordReplay(eventName, { payload });
+    return this;
+  }
+
+  emitTo<K extends keyof TEvents>(target: IPCEventTarget, eventName: K, payload: TEvents[K]): this {
+    const webContentsIds = resolveTargetIds(target);
+    this.notifyListeners(eventName, payload);
+    this.emitHook?.(eventName, payload, webContentsIds);
+    this.recordReplay(eventName, { payload, webContentsIds });
     return this;
   }
 
+  replayEvent<K extends keyof TEvents>(eventName: K, count = 1): this {
+    if (count > 0) {
+      this.replayLimits.set(eventName, count);
+    } else {
+      this.replayLimits.delete(eventName);
+      this.replayBuffers.delete(eventName);
+    }
+    return this;
+  }
+
+  getReplay<K extends keyof TEvents>(eventName: K, webContentsId: number): { limit: number; payloads: TEvents[K][] } {
+    if (eventName === STATE_EVENT_NAME) {
+      const snapshot: IPCStateUpdate<TState> = { version: this.stateVersion, state: this.state };
+      return this.state === undefined ? { limit: 0, payloads: [] } : { limit: 1, payloads: [snapshot as TEvents[K]] };
+    }
+    const limit = this.replayLimits.get(eventName) ?? 0;
+    const visible = (this.replayBuffers.get(eventName) ?? []).filter(
+      (entry) => !entry.webContentsIds || entry.webContentsIds.includes(webContentsId),
+    );
+    return { limit, payloads: visible.slice(-limit).map((entry) => entry.payload as TEvents[K]) };
+  }
+
+  getReplayLimits(): Record<string, number> {
+    return Object.fromEntries([...this.replayLimits].map(([eventName, limit]) => [String(eventName), limit]));
+  }
+
+  initState(initial: TState): this {
+    this.state = initial;
+    this.stateVersion += 1;
+    this.publishState({ version: this.stateVersion, state: initial });
+    return this;
+  }
+
+  setState(update: Partial<TState> | ((state: TState) => Partial<TState>)): void {
+    if (this.state === undefined) {
+      throw new Error('[electron-ipc] setState() was called before initState()');
+    }
+    const patch = typeof update === 'function' ? update(this.state) : update;
+    this.state = { ...this.state, ...patch };
+    this.stateVersion += 1;
+    this.publishState({ version: this.stateVersion, patch });
+  }
+
+  getState(): TState {
+    if (this.state === undefined) {
+      throw new Error('[electron-ipc] getState() was called before initState()');
+    }
+    return this.state;
+  }
+
   setEmitHook(hook: EmitHook<TEvents> | undefined): void {
     this.emitHook = hook;
   }
 
+  private publishState(update: IPCStateUpdate<TState>): void {
+    (this.emitHook as EmitHook<EventMap> | undefined)?.(STATE_EVENT_NAME, update);
+  }
+
+  // Keeps only entries that are still among the latest `limit` events some webContents would see.
+  private recordReplay<K extends keyof TEvents>(eventName: K, entry: ReplayEntry): void {
+    const limit = this.replayLimits.get(eventName);
+    if (limit === undefined) {
+      return;
+    }
+    const entries = [...(this.replayBuffers.get(eventName) ?? []), entry];
+    const kept: ReplayEntry[] = [];
+    const seenByTarget = new Map<number, number>();
+    let broadcasts = 0;
+    for (let index = entries.length - 1; index >= 0 && broadcasts < limit; index -= 1) {
+      const candidate = entries[index] as ReplayEntry;
+      if (!candidate.webContentsIds) {
+        broadcasts += 1;
+        kept.push(candidate);
+        continue;
+      }
+      const stillVisible = candidate.webContentsIds.some((id) => broadcasts + (seenByTarget.get(id) ?? 0) < limit);
+      for (const id of candidate.webContentsIds) {
+        seenByTarget.set(id, (seenByTarget.get(id) ?? 0) + 1);
+      }
+      if (stillVisible) {
+        kept.push(candidate);
+      }
+    }
+    this.replayBuffers.set(eventName, kept.reverse());
+  }
+
+  private notifyListeners<K extends keyof TEvents>(eventName: K, payload: TEvents[K]): void {
+    const listeners = this.listeners.get(eventName);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      try {
+        (listener as Listener<TEvents[K]>)(payload);
+      } catch {
+        // Listener failures must not block remaining listeners.
+      }
+    }
+  }
+
   private ensureListenerSet<K extends keyof TEvents>(eventName: K): Set<Listener<TEvents[keyof TEvents]>> {
     const existing = this.listeners.get(eventName);
     if (existing) {
@@ -64,4 +196,14 @@ export class IPCService<TEvents extends EventMap = EventMap> {
     this.listeners.set(eventName, created);
     return created;
   }
+
+  // Nothing IPCService defines is callable over IPC, except getState() once there is state to read.
+  [RESERVED_MEMBERS](methodName: string): boolean {
+    return SERVICE_MEMBER_NAMES.has(methodName) && !(methodName === 'getState' && this.state !== undefined);
+  }
 }
+
+const SERVICE_MEMBER_NAMES: ReadonlySet<string> = new Set([
+  ...Object.getOwnPropertyNames(IPCService.prototype),
+  ...Object.keys(new IPCService()),
+]);
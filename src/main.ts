@@ -4,113 +4,863 @@ import { createRequire } from 'node:module';
 
 import * as electron from 'electron';
 
-import { SERVICE_EXISTS_CHANNEL, serviceEventChannel, serviceInvokeChannel } from './channels.ts';
+import { accessDeniedError, isCallAllowed, isServiceAllowed } from './access.ts';
+import type { IPCAccessPolicy } from './access.ts';
+import {
+  hydrateCallbacks,
+  onRemoteCallbackReleased,
+  releaseRemoteCallback,
+  releaseRendererCallbacks,
+  releaseServiceCallbacks,
+  resetRemoteCallbacksForTests,
+} from './callbacks.ts';
+import { createCallerContext, getCallerContext, runWithCallerContext } from './caller-context.ts';
+import type { IPCCallerContext, IpcMainInvokeEventLike } from './caller-context.ts';
+import { createChannels, IPC_PROTOCOL_VERSION, MIN_IPC_PROTOCOL_VERSION, STATE_EVENT_NAME } from './channels.ts';
+import { callTimeoutError, IPCError, protocolMismatchError, serializeError, serializeMethodError } from './errors.ts';
+import type { IPCResult } from './errors.ts';
+import { connectServiceHost } from './hosted.ts';
+import type { ServiceHostLike } from './hosted.ts';
 import { IPCService } from './ipc-service.ts';
-import type { EventMap } from './types.ts';
+import { findServiceMethod, listServiceMethods, methodNotFoundError, serviceNotFoundError } from './methods.ts';
+import { bindRendererResultListener, resetRendererCallsForTests, resolveRendererIPC } from './remote-renderer.ts';
+import type { ResolveRendererIPCOptions } from './remote-renderer.ts';
+import { runMiddleware } from './middleware.ts';
+import type { IPCMiddleware } from './middleware.ts';
+import type { MessageChannelMainLike, MessagePortMainLike, PortMessage, PortRequest } from './ports.ts';
+import { describeSchema, validateArgs, validateEventPayload, validateResult } from './schema.ts';
+import type { IPCServiceSchemas } from './schema.ts';
+import { closeIterator, isAsyncIterable } from './streams.ts';
+import type { OpenStream } from './streams.ts';
+import { createSubscriptionRegistry } from './subscriptions.ts';
+import type {
+  AsyncService,
+  CreateIPCRegistryOptions,
+  EventMap,
+  EventReplay,
+  IPCCallMeta,
+  IPCEventManifest,
+  IPCMethodManifest,
+  IPCServiceManifest,
+  IPCTransport,
+} from './types.ts';
+import { onWebContentsReset, resetWebContentsWatchersForTests } from './web-contents.ts';
+import type { WebContentsLike } from './web-contents.ts';
 
 type IpcMainLike = {
   handle(
     channel: string,
-    handler: (event: unknown, methodName: string, args: readonly unknown[]) => Promise<unknown> | unknown,
+    handler: (
+      event: unknown,
+      methodName: string,
+      args: readonly unknown[],
+      meta?: IPCCallMeta,
+    ) => Promise<unknown> | unknown,
   ): void;
-  on(channel: string, listener: (event: { returnValue?: unknown }, serviceName: string) => void): void;
+  removeHandler(channel: string): void;
+  on(channel: string, listener: (event: IpcMainEventLike, ...args: string[]) => void): void;
+};
+
+type IpcMainEventLike = IpcMainInvokeEventLike & {
+  returnValue?: unknown;
 };
 
 type EventBusLike = {
-  broadcast(channel: string, payload: unknown): void;
+  send(webContentsId: number, channel: string, payload: unknown): void;
+};
+
+type ExposeIPCDeps = {
+  ipcMain: IpcMainLike;
+  eventBus: EventBusLike;
+  createMessageChannel?: () => MessageChannelMainLike;
+};
+
+type WebContentsRuntimeLike = {
+  isDestroyed?(): boolean;
+  send(channel: string, payload: unknown): void;
 };
 
 type ServiceCtor<T> = new () => T;
 
-const registeredServices = new Map<string, object>();
-let serviceExistsListenerBound = false;
+type DispatchResult = IPCResult | { ok: true; iterator: AsyncIterator<unknown> };
 
-const RESERVED_METHOD_NAMES = new Set(['on', 'off', 'once', 'emit', 'setEmitHook', 'constructor']);
+type RegisteredService = {
+  service: object;
+  describe(): IPCServiceManifest;
+  isAccessibleBy(event: IpcMainInvokeEventLike, methodName: string): Promise<boolean>;
+  subscribe(event: IpcMainEventLike, sender: WebContentsLike, eventName: string, subscriptionId: string | undefined): void;
+  unsubscribe(sender: WebContentsLike, eventName: string): void;
+  connectPort(event: IpcMainInvokeEventLike): boolean;
+  replayTo(sender: WebContentsLike, eventName: string, subscriptionId: string): void;
+  closePorts(): void;
+  teardown(): Promise<void>;
+};
 
-function asError(error: unknown): Error {
-  if (error instanceof Error) {
-    return error;
-  }
-  return new Error(String(error));
+export type ExposeIPCOptions<T extends object = object> = {
+  name?: string;
+  access?: IPCAccessPolicy<T>;
+  methods?: readonly (keyof T & string)[];
+  errorStacks?: boolean;
+  schemas?: IPCServiceSchemas<T>;
+  timeoutMs?: number;
+  middleware?: readonly IPCMiddleware[];
+  transport?: IPCTransport;
+  description?: string;
+  descriptions?: IPCServiceDescriptions<T>;
+};
+
+export type IPCServiceDescriptions<T extends object = object> = {
+  methods?: { [K in keyof T]?: string };
+  events?: Record<string, string>;
+};
+
+function abortedError(serviceName: string, methodName: string, reason: string): IPCError {
+  return new IPCError(`[electron-ipc] Service "${serviceName}" method "${methodName}" was aborted: ${reason}`, {
+    code: 'IPC_ABORTED',
+    serviceName,
+    methodName,
+  });
 }
 
-function missingMethodError(serviceName: string, methodName: string): Error {
-  return new Error(`[electron-ipc] Service "${serviceName}" has no callable method "${methodName}"`);
+function inFlightKey(webContentsId: number | undefined, callId: string): string {
+  return `${webContentsId ?? 'main'}:${callId}`;
 }
 
-function methodCallError(serviceName: string, methodName: string, error: unknown): Error {
-  return new Error(
-    `[electron-ipc] Service "${serviceName}" method "${methodName}" failed: ${asError(error).message}`,
-  );
+function streamNotOpenError(callId: string): IPCError {
+  return new IPCError(`[electron-ipc] Stream "${callId}" is not open`, { code: 'IPC_ABORTED' });
+}
+
+function abortedResult(signal: AbortSignal): Promise<IPCResult> {
+  return new Promise((resolve) => {
+    const onAbort = () => resolve(failure(signal.reason as Error));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function failure(error: Error, stack = false): IPCResult {
+  return { ok: false, error: serializeError(error, { stack }) };
 }
 
-function resolveDefaultDeps(): { ipcMain: IpcMainLike; eventBus: EventBusLike } {
+function isSupportedProtocolVersion(bridgeVersion: unknown): boolean {
+  return typeof bridgeVersion === 'number'
+    && bridgeVersion >= MIN_IPC_PROTOCOL_VERSION
+    && bridgeVersion <= IPC_PROTOCOL_VERSION;
+}
+
+function checkProtocolVersion(bridgeVersion: unknown): IPCResult {
+  if (!isSupportedProtocolVersion(bridgeVersion)) {
+    return failure(protocolMismatchError(bridgeVersion, IPC_PROTOCOL_VERSION));
+  }
+  return { ok: true, value: IPC_PROTOCOL_VERSION };
+}
+
+// Methods are read from the live service on every request, so ones added after exposeIPC() show up too.
+function buildServiceManifest<T extends object>(
+  serviceName: string,
+  service: T,
+  allowedMethods: ReadonlySet<string> | undefined,
+  options: ExposeIPCOptions<T>,
+): IPCServiceManifest {
+  const methods = listServiceMethods(service, allowedMethods).map((methodName): IPCMethodManifest => {
+    const schema = options.schemas?.methods?.[methodName as keyof T];
+    return {
+      name: methodName,
+      description: options.descriptions?.methods?.[methodName as keyof T],
+      args: schema?.args?.map((argSchema) => ({ vendor: argSchema['~standard'].vendor })),
+      result: describeSchema(schema?.result),
+    };
+  });
+  const replayLimits = service instanceof IPCService ? service.getReplayLimits() : {};
+  const eventNames = new Set([
+    ...Object.keys(options.descriptions?.events ?? {}),
+    ...Object.keys(options.schemas?.events ?? {}),
+    ...Object.keys(replayLimits),
+  ]);
+  eventNames.delete(STATE_EVENT_NAME);
+  const events = [...eventNames].map((eventName): IPCEventManifest => ({
+    name: eventName,
+    description: options.descriptions?.events?.[eventName],
+    payload: describeSchema(options.schemas?.events?.[eventName]),
+    replay: replayLimits[eventName],
+  }));
+  return {
+    name: serviceName,
+    description: options.description,
+    transport: options.transport ?? 'ipc',
+    methods,
+    events,
+  };
+}
+
+function resolveDefaultDeps(): ExposeIPCDeps {
   const runtime = electron as unknown as {
     ipcMain?: IpcMainLike;
-    BrowserWindow?: { getAllWindows(): Array<{ webContents: { send(channel: string, payload: unknown): void } }> };
+    MessageChannelMain?: new () => MessageChannelMainLike;
+    webContents?: {
+      fromId(id: number): WebContentsRuntimeLike | undefined;
+    };
   };
 
-  if (!runtime.ipcMain || !runtime.BrowserWindow) {
+  if (!runtime.ipcMain || !runtime.webContents) {
     throw new Error('[electron-ipc] Electron runtime unavailable. Pass deps in tests or run inside Electron main.');
   }
 
+  const { webContents, MessageChannelMain } = runtime;
   return {
     ipcMain: runtime.ipcMain,
+    createMessageChannel: MessageChannelMain ? () => new MessageChannelMain() : undefined,
     eventBus: {
-      broadcast(channel, payload) {
-        for (const windowRef of runtime.BrowserWindow?.getAllWindows() ?? []) {
-          windowRef.webContents.send(channel, payload);
+      send(webContentsId, channel, payload) {
+        const contents = webContents.fromId(webContentsId);
+        if (contents && !contents.isDestroyed?.()) {
+          contents.send(channel, payload);
         }
       },
     },
   };
 }
 
-export function exposeIPC<T extends object>(
-  serviceOrCtor: T | ServiceCtor<T>,
-  serviceName?: string,
-  deps?: { ipcMain: IpcMainLike; eventBus: EventBusLike },
-): void {
-  const { ipcMain, eventBus } = deps ?? resolveDefaultDeps();
+export type IPCRegistry = {
+  namespace: string;
+  exposeIPC<T extends object>(
+    serviceOrCtor: T | ServiceCtor<T>,
+    serviceNameOrOptions?: string | ExposeIPCOptions<T>,
+    deps?: ExposeIPCDeps,
+  ): () => Promise<void>;
+  exposeHostedIPC<T extends object = object>(
+    host: ServiceHostLike,
+    serviceNameOrOptions?: string | ExposeIPCOptions<T>,
+    deps?: ExposeIPCDeps,
+  ): Promise<() => Promise<void>>;
+  unexposeIPC(serviceName: string): Promise<void>;
+  useIPCMiddleware(middleware: IPCMiddleware): () => void;
+  listenIPC(deps?: ExposeIPCDeps): void;
+  listIPCServices(): IPCServiceManifest[];
+  describeIPCService(serviceName: string): IPCServiceManifest | undefined;
+  resolveRendererIPC<T extends object>(
+    target: WebContentsLike | { webContents: WebContentsLike },
+    serviceName: string,
+    options?: ResolveRendererIPCOptions,
+    deps?: { ipcMain: IpcMainLike },
+  ): AsyncService<T>;
+};
+
+const claimedNamespaces = new WeakMap<object, Set<string>>();
+// Resetting drops a registry's state and closes its ports without disposing its services.
+const registryResetters = new WeakMap<IPCRegistry, () => void>();
+
+export function createIPCRegistry(registryOptions: CreateIPCRegistryOptions = {}): IPCRegistry {
+  const channels = createChannels(registryOptions.namespace);
+  const registeredServices = new Map<string, RegisteredService>();
+  const eventSubscriptions = createSubscriptionRegistry();
+  const inFlightCalls = new Map<string, { controller: AbortController; startedAt: number; serviceName: string; methodName: string }>();
+  const openStreams = new Map<string, OpenStream>();
+  const globalMiddleware: IPCMiddleware[] = [];
+  const serviceWatchers = new Map<number, { eventBus: EventBusLike; stopWatching(): void }>();
+  const boundIpcMains = new WeakSet<object>();
 
-  const isCtor = typeof serviceOrCtor === 'function';
-  const resolvedName = serviceName ?? (isCtor ? (serviceOrCtor as ServiceCtor<T>).name : serviceOrCtor.constructor.name);
-  if (registeredServices.has(resolvedName)) {
-    throw new Error(`[electron-ipc] Service "${resolvedName}" is already registered`);
+  function cancelCall(
+    webContentsId: number | undefined,
+    serviceName: string,
+    methodName: string,
+    callId: string | undefined,
+    reason: string | undefined,
+  ): void {
+    const call = callId === undefined ? undefined : inFlightCalls.get(inFlightKey(webContentsId, callId));
+    if (!call) {
+      return;
+    }
+    call.controller.abort(
+      reason === 'timeout'
+        ? callTimeoutError(serviceName, methodName, Date.now() - call.startedAt)
+        : abortedError(serviceName, methodName, 'cancelled by renderer'),
+    );
   }
 
-  const service = isCtor ? new (serviceOrCtor as ServiceCtor<T>)() : serviceOrCtor;
-  registeredServices.set(resolvedName, service);
+  async function pullStream(webContentsId: number | undefined, callId: string): Promise<IPCResult> {
+    const stream = openStreams.get(inFlightKey(webContentsId, callId));
+    return stream ? await stream.pull() : failure(streamNotOpenError(callId));
+  }
 
-  if (service instanceof IPCService) {
-    service.setEmitHook((eventName, payload) => {
-      eventBus.broadcast(serviceEventChannel(resolvedName, String(eventName)), payload);
+  function bindRegistryListeners({ ipcMain, eventBus }: ExposeIPCDeps): void {
+    if (boundIpcMains.has(ipcMain)) {
+      return;
+    }
+    const claimed = claimedNamespaces.get(ipcMain) ?? new Set<string>();
+    if (claimed.has(channels.namespace)) {
+      throw new Error(`[electron-ipc] Another registry already uses namespace "${channels.namespace}" on this ipcMain`);
+    }
+    claimed.add(channels.namespace);
+    claimedNamespaces.set(ipcMain, claimed);
+    boundIpcMains.add(ipcMain);
+    ipcMain.handle(channels.protocolHandshake, (_event, bridgeVersion) => checkProtocolVersion(bridgeVersion));
+    ipcMain.on(channels.serviceExists, (event, requestedServiceName) => {
+      event.returnValue = registeredServices.has(requestedServiceName);
+    });
+    ipcMain.on(channels.serviceSubscribe, (event, requestedServiceName, eventName, subscriptionId) => {
+      const sender = event.sender;
+      if (sender && eventName !== undefined) {
+        registeredServices.get(requestedServiceName)?.subscribe(event, sender, eventName, subscriptionId);
+      }
+    });
+    ipcMain.on(channels.serviceUnsubscribe, (event, requestedServiceName, eventName) => {
+      if (event.sender && eventName !== undefined) {
+        registeredServices.get(requestedServiceName)?.unsubscribe(event.sender, eventName);
+      }
+    });
+    ipcMain.handle(channels.servicePort, (event, requestedServiceName) =>
+      registeredServices.get(requestedServiceName)?.connectPort(event as IpcMainInvokeEventLike) ?? false);
+    ipcMain.handle(channels.streamNext, (event, callId) =>
+      pullStream((event as IpcMainInvokeEventLike).sender?.id, callId));
+    ipcMain.on(channels.callCancel, (event, requestedServiceName, methodName, callId, reason) => {
+      cancelCall(event.sender?.id, requestedServiceName, methodName, callId, reason);
+    });
+    ipcMain.on(channels.callbackRelease, (event, ...callbackIds) => {
+      releaseRendererCallbacks(event.sender?.id, callbackIds, channels.namespace);
+    });
+    bindRendererResultListener(ipcMain, channels);
+    ipcMain.handle(channels.servicesList, async (event): Promise<IPCResult> => {
+      const manifests: IPCServiceManifest[] = [];
+      for (const registration of [...registeredServices.values()]) {
+        if (await registration.isAccessibleBy(event as IpcMainInvokeEventLike, 'describeService')) {
+          manifests.push(registration.describe());
+        }
+      }
+      return { ok: true, value: manifests };
+    });
+    ipcMain.handle(channels.serviceDescribe, async (event, requestedServiceName): Promise<IPCResult> => {
+      const registration = registeredServices.get(requestedServiceName);
+      if (!registration) {
+        return failure(serviceNotFoundError(requestedServiceName));
+      }
+      if (!(await registration.isAccessibleBy(event as IpcMainInvokeEventLike, 'describeService'))) {
+        return failure(accessDeniedError(requestedServiceName, 'describeService'));
+      }
+      return { ok: true, value: registration.describe() };
+    });
+    ipcMain.on(channels.servicesWatch, (event) => {
+      const sender = event.sender;
+      if (!sender || serviceWatchers.has(sender.id)) {
+        return;
+      }
+      const stopWatching = onWebContentsReset(sender, () => serviceWatchers.delete(sender.id));
+      serviceWatchers.set(sender.id, { eventBus, stopWatching });
+      eventBus.send(sender.id, channels.servicesChanged, [...registeredServices.keys()]);
     });
   }
 
-  ipcMain.handle(serviceInvokeChannel(resolvedName), async (_event, methodName, args) => {
-    if (RESERVED_METHOD_NAMES.has(methodName)) {
-      throw missingMethodError(resolvedName, methodName);
+  // Renderers waiting for services get the full list pushed whenever it changes.
+  function notifyServiceWatchers(): void {
+    const serviceNames = [...registeredServices.keys()];
+    for (const [webContentsId, watcher] of serviceWatchers) {
+      watcher.eventBus.send(webContentsId, channels.servicesChanged, serviceNames);
     }
+  }
+
+  function exposeIPC<T extends object>(
+    serviceOrCtor: T | ServiceCtor<T>,
+    serviceNameOrOptions?: string | ExposeIPCOptions<T>,
+    deps?: ExposeIPCDeps,
+  ): () => Promise<void> {
+    const resolvedDeps = deps ?? resolveDefaultDeps();
+    const { ipcMain, eventBus, createMessageChannel } = resolvedDeps;
+    bindRegistryListeners(resolvedDeps);
+    const options: ExposeIPCOptions<T> =
+      typeof serviceNameOrOptions === 'string' ? { name: serviceNameOrOptions } : (serviceNameOrOptions ?? {});
 
-    const candidate = (service as Record<string, unknown>)[methodName];
-    if (typeof candidate !== 'function') {
-      throw missingMethodError(resolvedName, methodName);
+    const isCtor = typeof serviceOrCtor === 'function';
+    const resolvedName = options.name ?? (isCtor ? (serviceOrCtor as ServiceCtor<T>).name : serviceOrCtor.constructor.name);
+    if (registeredServices.has(resolvedName)) {
+      throw new Error(`[electron-ipc] Service "${resolvedName}" is already registered`);
+    }
+    if (options.transport === 'message-port' && !createMessageChannel) {
+      throw new Error(`[electron-ipc] Service "${resolvedName}" requires MessageChannelMain for the message-port transport`);
     }
 
-    try {
-      return await Promise.resolve((candidate as (...runtimeArgs: readonly unknown[]) => unknown).apply(service, [...args]));
-    } catch (error) {
-      throw methodCallError(resolvedName, methodName, error);
+    const service = isCtor ? new (serviceOrCtor as ServiceCtor<T>)() : serviceOrCtor;
+    const allowedMethods = options.methods ? new Set<string>(options.methods) : undefined;
+    for (const methodName of allowedMethods ?? []) {
+      if (!findServiceMethod(service, methodName, undefined)) {
+        throw new Error(`[electron-ipc] Service "${resolvedName}" cannot expose "${methodName}" as a callable method`);
+      }
     }
-  });
+    const ports = new Map<number, { port: MessagePortMainLike; stopWatching(): void }>();
+    // Access checks may be async, so each webContents' subscription changes are applied in order.
+    const subscriptionChanges = new Map<number, Promise<void>>();
+    const queueSubscriptionChange = (webContentsId: number, change: () => Promise<void> | void): void => {
+      const queued = (subscriptionChanges.get(webContentsId) ?? Promise.resolve()).then(change).catch(() => undefined);
+      subscriptionChanges.set(webContentsId, queued);
+      void queued.then(() => {
+        if (subscriptionChanges.get(webContentsId) === queued) {
+          subscriptionChanges.delete(webContentsId);
+        }
+      });
+    };
+    const registration: RegisteredService = {
+      service,
+      describe: () => buildServiceManifest(resolvedName, service, allowedMethods, options),
+      isAccessibleBy: (event, methodName) =>
+        isServiceAllowed(options.access, createCallerContext(event, resolvedName, methodName, new AbortController().signal)),
+      subscribe(event, sender, eventName, subscriptionId) {
+        const apply = () => {
+          if (registeredServices.get(resolvedName) !== registration) {
+            return;
+          }
+          eventSubscriptions.add(resolvedName, eventName, sender);
+          if (subscriptionId !== undefined) {
+            registration.replayTo(sender, eventName, subscriptionId);
+          }
+        };
+        if (!options.access) {
+          apply();
+          return;
+        }
+        queueSubscriptionChange(sender.id, async () => {
+          if (await registration.isAccessibleBy(event, 'on')) {
+            apply();
+          }
+        });
+      },
+      unsubscribe(sender, eventName) {
+        const apply = () => eventSubscriptions.remove(resolvedName, eventName, sender.id);
+        if (options.access) {
+          queueSubscriptionChange(sender.id, apply);
+        } else {
+          apply();
+        }
+      },
+      connectPort(event) {
+        const sender = event.sender;
+        if (options.transport !== 'message-port' || !createMessageChannel || !sender?.postMessage) {
+          return false;
+        }
+        ports.get(sender.id)?.port.close();
+        const { port1, port2 } = createMessageChannel();
+        const stopWatching = onWebContentsReset(sender, () => {
+          if (ports.get(sender.id)?.port === port1) {
+            ports.delete(sender.id);
+          }
+          port1.close();
+        });
+        ports.set(sender.id, { port: port1, stopWatching });
+        servePort(port1, event);
+        sender.postMessage(channels.servicePortFor(resolvedName), null, [port2]);
+        return true;
+      },
+      replayTo(sender, eventName, subscriptionId) {
+        if (!(service instanceof IPCService)) {
+          return;
+        }
+        const { limit, payloads } = service.getReplay(eventName, sender.id);
+        if (limit === 0) {
+          return;
+        }
+        const replay: EventReplay = { subscriptionId, eventName, limit, payloads };
+        const port = ports.get(sender.id)?.port;
+        if (port) {
+          port.postMessage({ type: 'replay', ...replay } satisfies PortMessage);
+        } else {
+          eventBus.send(sender.id, channels.eventReplay, replay);
+        }
+      },
+      closePorts() {
+        for (const { port, stopWatching } of ports.values()) {
+          stopWatching();
+          port.close();
+        }
+        ports.clear();
+      },
+      async teardown() {
+        ipcMain.removeHandler(channels.serviceInvoke(resolvedName));
+        if (service instanceof IPCService) {
+          service.setEmitHook(undefined);
+        }
+        for (const webContentsId of eventSubscriptions.serviceSubscribers(resolvedName)) {
+          eventBus.send(webContentsId, channels.serviceDisposed(resolvedName), resolvedName);
+        }
+        eventSubscriptions.removeService(resolvedName);
+        registration.closePorts();
+        releaseServiceCallbacks(resolvedName, channels.namespace);
+        const streams = [...openStreams.values()].filter((stream) => stream.serviceName === resolvedName);
+        for (const call of [...inFlightCalls.values()]) {
+          if (call.serviceName === resolvedName) {
+            call.controller.abort(abortedError(resolvedName, call.methodName, 'service was unexposed'));
+          }
+        }
+        await Promise.all(streams.map((stream) => stream.close()));
+        await (service as { dispose?: () => unknown }).dispose?.();
+      },
+    };
+    registeredServices.set(resolvedName, registration);
 
-  if (!serviceExistsListenerBound) {
-    ipcMain.on(SERVICE_EXISTS_CHANNEL, (event, requestedServiceName) => {
-      event.returnValue = registeredServices.has(requestedServiceName);
+    if (service instanceof IPCService) {
+      service.setEmitHook((eventName, payload, webContentsIds) => {
+        const eventSchema = options.schemas?.events?.[String(eventName)];
+        const validatedPayload = validateEventPayload(eventSchema, payload, resolvedName, String(eventName));
+        const subscribers = eventSubscriptions.subscribers(resolvedName, String(eventName));
+        const recipients = webContentsIds ? subscribers.filter((id) => webContentsIds.includes(id)) : subscribers;
+        const channel = channels.serviceEvent(resolvedName, String(eventName));
+        for (const webContentsId of recipients) {
+          const port = ports.get(webContentsId)?.port;
+          if (port) {
+            const message: PortMessage = { type: 'event', eventName: String(eventName), payload: validatedPayload };
+            port.postMessage(message);
+          } else {
+            eventBus.send(webContentsId, channel, validatedPayload);
+          }
+        }
+      });
+    }
+
+    const errorStacks = options.errorStacks ?? false;
+    const dispatch = async (
+      event: IpcMainInvokeEventLike,
+      methodName: string,
+      args: readonly unknown[],
+      meta: IPCCallMeta | undefined,
+      signal: AbortSignal,
+    ): Promise<DispatchResult> => {
+      const context = createCallerContext(event, resolvedName, methodName, signal, meta?.correlationId);
+      if (!(await isCallAllowed(options.access, context))) {
+        return failure(accessDeniedError(resolvedName, methodName));
+      }
+
+      const candidate = findServiceMethod(service, methodName, allowedMethods);
+      if (!candidate) {
+        return failure(methodNotFoundError(resolvedName, methodName));
+      }
+
+      const callbacks = hydrateCallbacks(args, event.sender, resolvedName, methodName, channels);
+      const result = await callMethod(candidate, context, methodName, callbacks.args, signal);
+      callbacks.settle(result.ok);
+      return result;
+    };
+
+    const callMethod = async (
+      candidate: (...args: readonly unknown[]) => unknown,
+      context: IPCCallerContext,
+      methodName: string,
+      args: readonly unknown[],
+      signal: AbortSignal,
+    ): Promise<DispatchResult> => {
+      const methodSchema = options.schemas?.methods?.[methodName as keyof T];
+      let validatedArgs: unknown[];
+      try {
+        validatedArgs = await validateArgs(methodSchema, args, resolvedName, methodName);
+      } catch (error) {
+        return failure(error as Error);
+      }
+
+      let invalidResult: unknown;
+      const invokeService = async (callArgs: unknown[]): Promise<unknown> => {
+        const value = await candidate.apply(service, callArgs);
+        if (isAsyncIterable(value)) {
+          return value;
+        }
+        try {
+          return await validateResult(methodSchema, value, resolvedName, methodName);
+        } catch (error) {
+          invalidResult = error;
+          throw error;
+        }
+      };
+      const middleware = [...globalMiddleware, ...(options.middleware ?? [])];
+      const call = { serviceName: resolvedName, methodName, args: validatedArgs, context };
+
+      let value: unknown;
+      try {
+        value = await runWithCallerContext(context, () => runMiddleware(middleware, call, invokeService));
+      } catch (error) {
+        if (signal.aborted) {
+          return failure(signal.reason as Error);
+        }
+        if (error === invalidResult) {
+          return failure(error as Error);
+        }
+        return { ok: false, error: serializeMethodError(resolvedName, methodName, error, { stack: errorStacks }) };
+      }
+      if (signal.aborted) {
+        return failure(signal.reason as Error);
+      }
+      if (isAsyncIterable(value)) {
+        const source = value[Symbol.asyncIterator]();
+        return {
+          ok: true,
+          iterator: {
+            next: () => runWithCallerContext(context, () => source.next()),
+            return: (returned?: unknown) =>
+              runWithCallerContext(context, async () => (await source.return?.(returned)) ?? { done: true, value: returned }),
+          },
+        };
+      }
+      return { ok: true, value };
+    };
+
+    const openStream = (
+      key: string,
+      methodName: string,
+      iterator: AsyncIterator<unknown>,
+      signal: AbortSignal,
+      onClose: () => void,
+    ): void => {
+      const methodSchema = options.schemas?.methods?.[methodName as keyof T];
+      let pulling = false;
+      let closed: Promise<void> | undefined;
+      const close = (): Promise<void> => {
+        if (!closed) {
+          if (openStreams.get(key) === stream) {
+            openStreams.delete(key);
+          }
+          signal.removeEventListener('abort', close);
+          onClose();
+          const returned = closeIterator(iterator);
+          // A generator busy in next() only runs return() once that settles, which may never happen.
+          closed = pulling ? Promise.resolve() : returned;
+        }
+        return closed;
+      };
+      const readNext = async (): Promise<IPCResult> => {
+        let step: IteratorResult<unknown>;
+        pulling = true;
+        try {
+          step = await iterator.next();
+        } catch (error) {
+          pulling = false;
+          close();
+          return signal.aborted
+            ? failure(signal.reason as Error)
+            : { ok: false, error: serializeMethodError(resolvedName, methodName, error, { stack: errorStacks }) };
+        }
+        pulling = false;
+        if (step.done) {
+          close();
+          return { ok: true, value: { done: true } };
+        }
+        try {
+          return { ok: true, value: { done: false, value: await validateResult(methodSchema, step.value, resolvedName, methodName) } };
+        } catch (error) {
+          close();
+          return failure(error as Error);
+        }
+      };
+      // One listener for the whole stream; a listener per pull would pile up on long streams.
+      const aborted = abortedResult(signal);
+      const stream: OpenStream = {
+        serviceName: resolvedName,
+        pull: () => Promise.race([readNext(), aborted]),
+        close,
+      };
+      openStreams.set(key, stream);
+      signal.addEventListener('abort', close, { once: true });
+    };
+
+    const invokeCall = async (
+      invokeEvent: IpcMainInvokeEventLike,
+      methodName: string,
+      args: readonly unknown[],
+      meta: IPCCallMeta | undefined,
+    ): Promise<IPCResult> => {
+      // Bridges send the version they agreed on in the handshake; calls from bridges that skipped it are refused.
+      const protocol = checkProtocolVersion(meta?.protocolVersion);
+      if (!protocol.ok) {
+        return protocol;
+      }
+      const controller = new AbortController();
+      const startedAt = Date.now();
+      const key = meta?.callId === undefined ? undefined : inFlightKey(invokeEvent.sender?.id, meta.callId);
+      if (key) {
+        inFlightCalls.set(key, { controller, startedAt, serviceName: resolvedName, methodName });
+      }
+      const stopWatchingSender = invokeEvent.sender
+        ? onWebContentsReset(invokeEvent.sender, () => {
+          controller.abort(abortedError(resolvedName, methodName, 'renderer went away'));
+        })
+        : undefined;
+      const timeoutMs = options.timeoutMs;
+      const timer = timeoutMs !== undefined && timeoutMs > 0 && Number.isFinite(timeoutMs)
+        ? setTimeout(() => controller.abort(callTimeoutError(resolvedName, methodName, Date.now() - startedAt)), timeoutMs)
+        : undefined;
+
+      const release = () => {
+        stopWatchingSender?.();
+        if (key) {
+          inFlightCalls.delete(key);
+        }
+      };
+
+      let streaming = false;
+      try {
+        const result = await Promise.race([
+          dispatch(invokeEvent, methodName, args, meta, controller.signal),
+          abortedResult(controller.signal),
+        ]);
+        if (!('iterator' in result)) {
+          return result;
+        }
+        if (!key) {
+          closeIterator(result.iterator);
+          return failure(new Error(
+            `[electron-ipc] Service "${resolvedName}" method "${methodName}" returned a stream, which only resolveIPC() proxies can consume`,
+          ));
+        }
+        openStream(key, methodName, result.iterator, controller.signal, release);
+        streaming = true;
+        return { ok: true, value: undefined, stream: true };
+      } finally {
+        clearTimeout(timer);
+        if (!streaming) {
+          release();
+        }
+      }
+    };
+
+    const servePort = (port: MessagePortMainLike, event: IpcMainInvokeEventLike): void => {
+      const webContentsId = event.sender?.id;
+      const reply = (id: number, result: IPCResult) => {
+        try {
+          port.postMessage({ type: 'result', id, result } satisfies PortMessage);
+        } catch (error) {
+          port.postMessage({ type: 'result', id, result: failure(error as Error) } satisfies PortMessage);
+        }
+      };
+      port.on('message', ({ data }) => {
+        const request = data as PortRequest;
+        if (request.type === 'call') {
+          void invokeCall(event, request.methodName, request.args, request.meta).then((result) => reply(request.id, result));
+        } else if (request.type === 'next') {
+          void pullStream(webContentsId, request.callId).then((result) => reply(request.id, result));
+        } else if (request.type === 'cancel') {
+          cancelCall(webContentsId, resolvedName, request.methodName, request.callId, request.reason);
+        }
+      });
+      port.start();
+    };
+
+    ipcMain.handle(channels.serviceInvoke(resolvedName), (event, methodName, args, meta) => {
+      // Bridges from before the handshake take any resolved value as the method's result, so they get a rejection.
+      if (!isSupportedProtocolVersion(meta?.protocolVersion)) {
+        throw protocolMismatchError(meta?.protocolVersion, IPC_PROTOCOL_VERSION);
+      }
+      return invokeCall(event as IpcMainInvokeEventLike, methodName, args, meta);
     });
-    serviceExistsListenerBound = true;
+    notifyServiceWatchers();
+
+    return async () => {
+      if (registeredServices.get(resolvedName) === registration) {
+        await unexposeIPC(resolvedName);
+      }
+    };
+  }
+
+  async function exposeHostedIPC<T extends object = object>(
+    host: ServiceHostLike,
+    serviceNameOrOptions?: string | ExposeIPCOptions<T>,
+    deps?: ExposeIPCDeps,
+  ): Promise<() => Promise<void>> {
+    const options: ExposeIPCOptions<T> =
+      typeof serviceNameOrOptions === 'string' ? { name: serviceNameOrOptions } : (serviceNameOrOptions ?? {});
+    const { serviceName, service } = await connectServiceHost(host, options.name);
+    return exposeIPC(service as unknown as T, { ...options, name: serviceName }, deps);
   }
+
+  function useIPCMiddleware(middleware: IPCMiddleware): () => void {
+    globalMiddleware.push(middleware);
+    return () => {
+      const index = globalMiddleware.indexOf(middleware);
+      if (index !== -1) {
+        globalMiddleware.splice(index, 1);
+      }
+    };
+  }
+
+  async function unexposeIPC(serviceName: string): Promise<void> {
+    const registration = registeredServices.get(serviceName);
+    if (!registration) {
+      throw new Error(`[electron-ipc] Service "${serviceName}" is not registered`);
+    }
+    registeredServices.delete(serviceName);
+    notifyServiceWatchers();
+    await registration.teardown();
+  }
+
+  function listIPCServices(): IPCServiceManifest[] {
+    return [...registeredServices.values()].map((registration) => registration.describe());
+  }
+
+  function describeIPCService(serviceName: string): IPCServiceManifest | undefined {
+    return registeredServices.get(serviceName)?.describe();
+  }
+
+  const registry: IPCRegistry = {
+    namespace: channels.namespace,
+    exposeIPC,
+    exposeHostedIPC,
+    unexposeIPC,
+    useIPCMiddleware,
+    listenIPC: (deps) => bindRegistryListeners(deps ?? resolveDefaultDeps()),
+    listIPCServices,
+    describeIPCService,
+    resolveRendererIPC: (target, serviceName, options, deps) =>
+      resolveRendererIPC(target, serviceName, options, { ipcMain: deps?.ipcMain ?? resolveDefaultDeps().ipcMain, channels }),
+  };
+  registryResetters.set(registry, () => {
+    for (const registration of registeredServices.values()) {
+      registration.closePorts();
+    }
+    for (const watcher of serviceWatchers.values()) {
+      watcher.stopWatching();
+    }
+    registeredServices.clear();
+    eventSubscriptions.clear();
+    inFlightCalls.clear();
+    openStreams.clear();
+    serviceWatchers.clear();
+    globalMiddleware.length = 0;
+  });
+  return registry;
+}
+
+const defaultRegistry = createIPCRegistry();
+
+export function exposeIPC<T extends object>(
+  serviceOrCtor: T | ServiceCtor<T>,
+  serviceNameOrOptions?: string | ExposeIPCOptions<T>,
+  deps?: ExposeIPCDeps,
+): () => Promise<void> {
+  return defaultRegistry.exposeIPC(serviceOrCtor, serviceNameOrOptions, deps);
+}
+
+export function exposeHostedIPC<T extends object = object>(
+  host: ServiceHostLike,
+  serviceNameOrOptions?: string | ExposeIPCOptions<T>,
+  deps?: ExposeIPCDeps,
+): Promise<() => Promise<void>> {
+  return defaultRegistry.exposeHostedIPC(host, serviceNameOrOptions, deps);
+}
+
+export function useIPCMiddleware(middleware: IPCMiddleware): () => void {
+  return defaultRegistry.useIPCMiddleware(middleware);
+}
+
+export function unexposeIPC(serviceName: string): Promise<void> {
+  return defaultRegistry.unexposeIPC(serviceName);
+}
+
+// Registries bind their ipcMain handlers on first use, so importing the package has no side effects.
+export function listenIPC(deps?: ExposeIPCDeps): void {
+  defaultRegistry.listenIPC(deps);
+}
+
+export function listIPCServices(): IPCServiceManifest[] {
+  return defaultRegistry.listIPCServices();
+}
+
+export function describeIPCService(serviceName: string): IPCServiceManifest | undefined {
+  return defaultRegistry.describeIPCService(serviceName);
 }
 
 export function getPreloadPath(): string {
@@ -185,9 +935,11 @@ function inferModuleDirFromStack(): string | undefined {
 }
 
 export function resetIPCRegistryForTests(): void {
-  registeredServices.clear();
-  serviceExistsListenerBound = false;
+  registryResetters.get(defaultRegistry)?.();
+  resetWebContentsWatchersForTests();
+  resetRendererCallsForTests();
+  resetRemoteCallbacksForTests();
 }
 
-export { IPCService };
-export type { EventMap };
+export { getCallerContext, IPCService, onRemoteCallbackReleased, releaseRemoteCallback };
+export type { EventMap, IPCAccessPolicy, IPCCallerContext };
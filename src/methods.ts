@@ -0,0 +1,67 @@
+import { IPCError } from './errors.ts';
+
+// Renderer proxies claim `on`/`off`/`once` and teardown owns `dispose`, whatever the service's class.
+export const RESERVED_METHOD_NAMES = new Set(['on', 'off', 'once', 'dispose', 'constructor']);
+
+// Services may reserve further members of their own; IPCService uses this for its plumbing.
+export const RESERVED_MEMBERS = Symbol('electron-ipc.reservedMembers');
+
+type ReservingService = {
+  [RESERVED_MEMBERS]?(methodName: string): boolean;
+};
+
+export function isDispatchableMethodName(methodName: string): boolean {
+  return (
+    !RESERVED_METHOD_NAMES.has(methodName) &&
+    !methodName.startsWith('_') &&
+    !Object.prototype.hasOwnProperty.call(Object.prototype, methodName)
+  );
+}
+
+export function methodNotFoundError(serviceName: string, methodName: string): IPCError {
+  return new IPCError(`[electron-ipc] Service "${serviceName}" has no callable method "${methodName}"`, {
+    code: 'IPC_METHOD_NOT_FOUND',
+    serviceName,
+    methodName,
+  });
+}
+
+export function serviceNotFoundError(serviceName: string): IPCError {
+  return new IPCError(`[electron-ipc] Service "${serviceName}" is not registered`, {
+    code: 'IPC_SERVICE_NOT_FOUND',
+    serviceName,
+  });
+}
+
+export function findServiceMethod(
+  service: object,
+  methodName: string,
+  allowedMethods: ReadonlySet<string> | undefined,
+): ((...args: readonly unknown[]) => unknown) | undefined {
+  if (typeof methodName !== 'string' || !isDispatchableMethodName(methodName)) {
+    return undefined;
+  }
+  if (allowedMethods && !allowedMethods.has(methodName)) {
+    return undefined;
+  }
+  if ((service as ReservingService)[RESERVED_MEMBERS]?.(methodName)) {
+    return undefined;
+  }
+  const candidate = (service as Record<string, unknown>)[methodName];
+  if (typeof candidate !== 'function' || candidate === (Object.prototype as Record<string, unknown>)[methodName]) {
+    return undefined;
+  }
+  return candidate as (...args: readonly unknown[]) => unknown;
+}
+
+export function listServiceMethods(service: object, allowedMethods: ReadonlySet<string> | undefined): string[] {
+  const names = new Set<string>();
+  for (let target: object | null = service; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const name of Object.getOwnPropertyNames(target)) {
+      if (findServiceMethod(service, name, allowedMethods)) {
+        names.add(name);
+      }
+    }
+  }
+  return [...names];
+}
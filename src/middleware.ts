@@ -0,0 +1,38 @@
+import type { IPCCallerContext } from './caller-context.ts';
+
+export type IPCMiddlewareCall = {
+  serviceName: string;
+  methodName: string;
+  args: unknown[];
+  context: IPCCallerContext;
+};
+
+export type IPCMiddlewareNext = (args?: readonly unknown[]) => Promise<unknown>;
+
+export type IPCMiddleware = (call: IPCMiddlewareCall, next: IPCMiddlewareNext) => unknown;
+
+type ChainCall = { serviceName: string; methodName: string; args: unknown[] };
+
+export function runMiddleware<TCall extends ChainCall>(
+  middleware: readonly ((call: TCall, next: IPCMiddlewareNext) => unknown)[],
+  call: TCall,
+  handler: (args: unknown[]) => Promise<unknown>,
+): Promise<unknown> {
+  const dispatchAt = async (index: number, args: unknown[]): Promise<unknown> => {
+    const current = middleware[index];
+    if (!current) {
+      return await handler(args);
+    }
+    let nextCalled = false;
+    return await current({ ...call, args }, async (nextArgs = args) => {
+      if (nextCalled) {
+        throw new Error(
+          `[electron-ipc] next() called more than once for service "${call.serviceName}" method "${call.methodName}"`,
+        );
+      }
+      nextCalled = true;
+      return await dispatchAt(index + 1, [...nextArgs]);
+    });
+  };
+  return dispatchAt(0, [...call.args]);
+}
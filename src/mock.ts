@@ -0,0 +1,231 @@
+import type { IPCBridgeAPI } from './bridge.ts';
+import { bridgeKey, CALLBACK_ARG_KEY, CALLBACK_SERVICE_NAME } from './channels.ts';
+import { deserializeError, IPCError, serializeError, serializeMethodError } from './errors.ts';
+import type { IPCResult } from './errors.ts';
+import type { IPCService } from './ipc-service.ts';
+import { isDispatchableMethodName, serviceNotFoundError } from './methods.ts';
+import { closeIterator, isAsyncIterable } from './streams.ts';
+import type { EventMap, IPCServiceManifest } from './types.ts';
+
+type EventsOf<T> = T extends IPCService<infer TEvents, object> ? TEvents : EventMap;
+
+export type IPCMockCall<T> = {
+  methodName: keyof T & string;
+  args: unknown[];
+};
+
+export type IPCMock<T extends object> = {
+  impl: Partial<T>;
+  calls: IPCMockCall<T>[];
+  emit<K extends keyof EventsOf<T> & string>(eventName: K, payload: EventsOf<T>[K]): void;
+  listenerCount(eventName: keyof EventsOf<T> & string): number;
+  restore(): void;
+};
+
+type MockEntry = {
+  mock: IPCMock<object>;
+  listeners: Map<string, Set<(payload: unknown) => void>>;
+  onDisposed: Set<() => void>;
+};
+
+const mocks = new Map<string, MockEntry>();
+const streams = new Map<string, AsyncIterator<unknown>>();
+const rendererServices = new Map<string, (methodName: string, args: readonly unknown[]) => Promise<IPCResult>>();
+const serviceWatchers = new Set<(serviceNames: readonly string[]) => void>();
+let mockBridge: IPCBridgeAPI | undefined;
+
+function notifyServiceWatchers(): void {
+  const serviceNames = [...mocks.keys()];
+  for (const watcher of [...serviceWatchers]) {
+    watcher(serviceNames);
+  }
+}
+
+function notImplementedError(serviceName: string, methodName: string): IPCError {
+  return new IPCError(`[electron-ipc] Mock service "${serviceName}" does not implement method "${methodName}"`, {
+    code: 'IPC_METHOD_NOT_FOUND',
+    serviceName,
+    methodName,
+  });
+}
+
+// Mocks only know their implemented methods, so manifests list those and no events.
+function describeMock(serviceName: string, entry: MockEntry): IPCServiceManifest {
+  const methods = Object.keys(entry.mock.impl).filter((methodName) =>
+    isDispatchableMethodName(methodName) && typeof (entry.mock.impl as Record<string, unknown>)[methodName] === 'function');
+  return { name: serviceName, transport: 'ipc', methods: methods.map((name) => ({ name })), events: [] };
+}
+
+// Callback handles are turned back into functions that reach the renderer's callback registry.
+function hydrateCallbacks(args: readonly unknown[]): unknown[] {
+  return args.map((arg) => {
+    const callbackId = (arg as Record<string, unknown> | null)?.[CALLBACK_ARG_KEY];
+    if (typeof callbackId !== 'string') {
+      return arg;
+    }
+    return async (...callbackArgs: unknown[]) => {
+      const result = await rendererServices.get(CALLBACK_SERVICE_NAME)?.(callbackId, callbackArgs);
+      if (result && !result.ok) {
+        throw deserializeError(result.error);
+      }
+      return result?.value;
+    };
+  });
+}
+
+function createMockBridge(): IPCBridgeAPI {
+  const bridge: IPCBridgeAPI = {
+    async call(serviceName, methodName, args, meta) {
+      const entry = mocks.get(serviceName);
+      if (!entry) {
+        return {
+          ok: false,
+          error: serializeError(serviceNotFoundError(serviceName)),
+        };
+      }
+      entry.mock.calls.push({ methodName: methodName as never, args: [...args] });
+      const method = (entry.mock.impl as Record<string, unknown>)[methodName];
+      if (typeof method !== 'function') {
+        return { ok: false, error: serializeError(notImplementedError(serviceName, methodName)) };
+      }
+      try {
+        const value: unknown = await method.apply(entry.mock.impl, hydrateCallbacks(args));
+        if (isAsyncIterable(value) && meta?.callId !== undefined) {
+          streams.set(meta.callId, value[Symbol.asyncIterator]());
+          return { ok: true, value: undefined, stream: true };
+        }
+        return { ok: true, value };
+      } catch (error) {
+        return { ok: false, error: serializeMethodError(serviceName, methodName, error) };
+      }
+    },
+    cancel(_serviceName, _methodName, callId) {
+      const iterator = streams.get(callId);
+      streams.delete(callId);
+      if (iterator) {
+        closeIterator(iterator);
+      }
+    },
+    async pull(serviceName, callId) {
+      const iterator = streams.get(callId);
+      if (!iterator) {
+        return { ok: false, error: serializeError(new Error(`[electron-ipc] Stream "${callId}" is not open`)) };
+      }
+      try {
+        const step = await iterator.next();
+        if (step.done) {
+          streams.delete(callId);
+        }
+        return { ok: true, value: { done: Boolean(step.done), value: step.done ? undefined : step.value } };
+      } catch (error) {
+        streams.delete(callId);
+        return { ok: false, error: serializeMethodError(serviceName, 'stream', error) };
+      }
+    },
+    async invoke(serviceName, methodName, args) {
+      const result = await bridge.call(serviceName, methodName, args);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      return result.value;
+    },
+    hasService(serviceName) {
+      return mocks.has(serviceName);
+    },
+    on(serviceName, eventName, callback) {
+      const listeners = mocks.get(serviceName)?.listeners;
+      if (!listeners) {
+        return () => undefined;
+      }
+      if (!listeners.has(eventName)) {
+        listeners.set(eventName, new Set());
+      }
+      const registered = (payload: unknown) => callback(payload);
+      listeners.get(eventName)?.add(registered);
+      return () => {
+        listeners.get(eventName)?.delete(registered);
+      };
+    },
+    onServiceDisposed(serviceName, callback) {
+      const onDisposed = mocks.get(serviceName)?.onDisposed;
+      onDisposed?.add(callback);
+      return () => {
+        onDisposed?.delete(callback);
+      };
+    },
+    exposeRendererService(serviceName, dispatch) {
+      rendererServices.set(serviceName, dispatch);
+      return () => {
+        if (rendererServices.get(serviceName) === dispatch) {
+          rendererServices.delete(serviceName);
+        }
+      };
+    },
+    releaseCallbacks() {
+      // Mocked services never hold on to callbacks.
+    },
+    watchServices(callback) {
+      serviceWatchers.add(callback);
+      callback([...mocks.keys()]);
+      return () => {
+        serviceWatchers.delete(callback);
+      };
+    },
+    async listServices() {
+      return { ok: true, value: [...mocks].map(([serviceName, entry]) => describeMock(serviceName, entry)) };
+    },
+    async describeService(serviceName) {
+      const entry = mocks.get(serviceName);
+      if (!entry) {
+        return { ok: false, error: serializeError(serviceNotFoundError(serviceName)) };
+      }
+      return { ok: true, value: describeMock(serviceName, entry) };
+    },
+  };
+  return bridge;
+}
+
+export function mockIPC<T extends object>(serviceName: string, impl: Partial<T> = {}): IPCMock<T> {
+  const scope = globalThis as Record<string, unknown>;
+  if (!mockBridge || scope[bridgeKey()] !== mockBridge) {
+    mockBridge = createMockBridge();
+    scope[bridgeKey()] = mockBridge;
+  }
+  mocks.get(serviceName)?.mock.restore();
+
+  const listeners = new Map<string, Set<(payload: unknown) => void>>();
+  const onDisposed = new Set<() => void>();
+  const mock: IPCMock<T> = {
+    impl,
+    calls: [],
+    emit(eventName, payload) {
+      for (const listener of [...(listeners.get(eventName) ?? [])]) {
+        listener(structuredClone(payload));
+      }
+    },
+    listenerCount(eventName) {
+      return listeners.get(eventName)?.size ?? 0;
+    },
+    restore() {
+      if (mocks.get(serviceName)?.mock !== mock) {
+        return;
+      }
+      mocks.delete(serviceName);
+      for (const callback of [...onDisposed]) {
+        callback();
+      }
+      notifyServiceWatchers();
+    },
+  };
+  mocks.set(serviceName, { mock: mock as IPCMock<object>, listeners, onDisposed });
+  notifyServiceWatchers();
+  return mock;
+}
+
+export function resetMocksForTests(): void {
+  mocks.clear();
+  streams.clear();
+  rendererServices.clear();
+  serviceWatchers.clear();
+  mockBridge = undefined;
+}
@@ -0,0 +1,100 @@
+import type { IPCResult } from './errors.ts';
+import type { EventReplay, IPCCallMeta } from './types.ts';
+
+export type MessagePortMainLike = {
+  on(eventName: 'message', listener: (messageEvent: { data: unknown }) => void): unknown;
+  postMessage(message: unknown): void;
+  start(): void;
+  close(): void;
+};
+
+export type MessageChannelMainLike = {
+  port1: MessagePortMainLike;
+  port2: unknown;
+};
+
+export type MessagePortLike = {
+  addEventListener(eventName: 'message' | 'close', listener: (event: { data?: unknown }) => void): void;
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  start(): void;
+  close(): void;
+};
+
+export type PortRequest =
+  | { type: 'call'; id: number; methodName: string; args: readonly unknown[]; meta?: IPCCallMeta }
+  | { type: 'next'; id: number; callId: string }
+  | { type: 'cancel'; methodName: string; callId: string; reason: 'abort' | 'timeout' };
+
+export type PortMessage =
+  | { type: 'result'; id: number; result: IPCResult }
+  | { type: 'event'; eventName: string; payload: unknown }
+  | ({ type: 'replay' } & EventReplay);
+
+export type PortClient = {
+  request(
+    message: { type: 'call'; methodName: string; args: readonly unknown[]; meta?: IPCCallMeta } | { type: 'next'; callId: string },
+    transfer?: readonly Transferable[],
+  ): Promise<IPCResult>;
+  send(message: Extract<PortRequest, { type: 'cancel' }>): void;
+};
+
+export function createPortClient(
+  serviceName: string,
+  port: MessagePortLike,
+  handlers: {
+    onEvent(eventName: string, payload: unknown): void;
+    onReplay(replay: EventReplay): void;
+    onClose(): void;
+  },
+): PortClient {
+  const pending = new Map<number, { resolve(result: IPCResult): void; reject(error: Error): void }>();
+  let nextRequestId = 0;
+  let closed = false;
+
+  port.addEventListener('message', (event) => {
+    const message = event.data as PortMessage;
+    if (message.type === 'event') {
+      handlers.onEvent(message.eventName, message.payload);
+      return;
+    }
+    if (message.type === 'replay') {
+      handlers.onReplay(message);
+      return;
+    }
+    pending.get(message.id)?.resolve(message.result);
+    pending.delete(message.id);
+  });
+  port.addEventListener('close', () => {
+    closed = true;
+    for (const request of pending.values()) {
+      request.reject(new Error(`[electron-ipc] Message port for service "${serviceName}" was closed`));
+    }
+    pending.clear();
+    handlers.onClose();
+  });
+  port.start();
+
+  return {
+    request(message, transfer = []) {
+      if (closed) {
+        return Promise.reject(new Error(`[electron-ipc] Message port for service "${serviceName}" was closed`));
+      }
+      nextRequestId += 1;
+      const id = nextRequestId;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        try {
+          port.postMessage({ ...message, id }, [...transfer]);
+        } catch (error) {
+          pending.delete(id);
+          reject(error as Error);
+        }
+      });
+    },
+    send(message) {
+      if (!closed) {
+        port.postMessage(message);
+      }
+    },
+  };
+}
@@ -1,11 +1,38 @@
 'use strict';
 
-const IPC_NAMESPACE = 'electron-ipc';
+// Keep in sync with IPC_PROTOCOL_VERSION in channels.ts.
+const IPC_PROTOCOL_VERSION = 1;
+const DEFAULT_NAMESPACE = 'electron-ipc';
+const NAMESPACE_ARG = '--electron-ipc-namespace=';
+const TRANSPORT_ARG = '--electron-ipc-transport=';
+const SERVICES_WATCH_RETRY_MS = 250;
+// Windows opt into another namespace or transport with webPreferences.additionalArguments.
+const preloadArgv = typeof process === 'object' && Array.isArray(process.argv) ? process.argv : [];
+const namespaceArg = preloadArgv.find((arg) => arg.startsWith(NAMESPACE_ARG));
+const transportArg = preloadArgv.find((arg) => arg.startsWith(TRANSPORT_ARG));
+const IPC_NAMESPACE = namespaceArg ? namespaceArg.slice(NAMESPACE_ARG.length) : DEFAULT_NAMESPACE;
+const IPC_TRANSPORT = transportArg ? transportArg.slice(TRANSPORT_ARG.length) : 'ipc';
+const PROTOCOL_HANDSHAKE_CHANNEL = `${IPC_NAMESPACE}:protocol:handshake`;
 const SERVICE_EXISTS_CHANNEL = `${IPC_NAMESPACE}:service:exists`;
-const BRIDGE_KEY = 'ipcServiceBridge';
+const SERVICES_WATCH_CHANNEL = `${IPC_NAMESPACE}:services:watch`;
+const SERVICES_CHANGED_CHANNEL = `${IPC_NAMESPACE}:services:changed`;
+const SERVICES_LIST_CHANNEL = `${IPC_NAMESPACE}:services:list`;
+const SERVICE_DESCRIBE_CHANNEL = `${IPC_NAMESPACE}:service:describe`;
+const SERVICE_SUBSCRIBE_CHANNEL = `${IPC_NAMESPACE}:service:subscribe`;
+const SERVICE_UNSUBSCRIBE_CHANNEL = `${IPC_NAMESPACE}:service:unsubscribe`;
+const SERVICE_PORT_CHANNEL = `${IPC_NAMESPACE}:service:port`;
+const CALL_CANCEL_CHANNEL = `${IPC_NAMESPACE}:call:cancel`;
+const STREAM_NEXT_CHANNEL = `${IPC_NAMESPACE}:stream:next`;
+const RENDERER_CALL_CHANNEL = `${IPC_NAMESPACE}:renderer:call`;
+const RENDERER_RESULT_CHANNEL = `${IPC_NAMESPACE}:renderer:result`;
+const EVENT_REPLAY_CHANNEL = `${IPC_NAMESPACE}:event:replay`;
+const CALLBACK_RELEASE_CHANNEL = `${IPC_NAMESPACE}:callback:release`;
+const BRIDGE_KEY = IPC_NAMESPACE === DEFAULT_NAMESPACE ? 'ipcServiceBridge' : `ipcServiceBridge:${IPC_NAMESPACE}`;
 
 const serviceInvokeChannel = (serviceName) => `${IPC_NAMESPACE}:service:${serviceName}:invoke`;
 const serviceEventChannel = (serviceName, eventName) => `${IPC_NAMESPACE}:service:${serviceName}:event:${eventName}`;
+const serviceDisposedChannel = (serviceName) => `${IPC_NAMESPACE}:service:${serviceName}:disposed`;
+const servicePortChannel = (serviceName) => `${IPC_NAMESPACE}:service:${serviceName}:port`;
 
 function loadRuntimeCandidate(moduleId) {
   try {
@@ -24,19 +51,331 @@ if (!runtime) {
   throw new Error('[electron-ipc] Unable to resolve preload runtime with contextBridge and ipcRenderer');
 }
 
+const rendererServices = new Map();
+const portClients = new Map();
+const portEventListeners = new Map();
+const replayListeners = new Map();
+let replayBound = false;
+let subscriptionCounter = 0;
+let handshake;
+let registeredServices;
+let servicesWatched = false;
+let watchRetry;
+const serviceWatchers = new Set();
+
+function deliverReplay(replay) {
+  const listener = replayListeners.get(replay.subscriptionId);
+  replayListeners.delete(replay.subscriptionId);
+  if (listener) {
+    listener(replay.payloads, replay.limit);
+  }
+}
+
+async function handleRendererCall(request) {
+  const dispatch = rendererServices.get(request.serviceName);
+  if (!dispatch) {
+    return {
+      ok: false,
+      error: {
+        name: 'IPCError',
+        message: `[electron-ipc] Renderer service "${request.serviceName}" is not registered`,
+        code: 'IPC_SERVICE_NOT_FOUND',
+      },
+    };
+  }
+  try {
+    return await dispatch(request.methodName, request.args);
+  } catch (error) {
+    return { ok: false, error: { name: 'Error', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+// Keep in sync with createPortClient in ports.ts.
+function createPortClient(serviceName, port, handlers) {
+  const pending = new Map();
+  let nextRequestId = 0;
+  let closed = false;
+  const closedError = () => new Error(`[electron-ipc] Message port for service "${serviceName}" was closed`);
+
+  port.addEventListener('message', (event) => {
+    const message = event.data;
+    if (message.type === 'event') {
+      handlers.onEvent(message.eventName, message.payload);
+      return;
+    }
+    if (message.type === 'replay') {
+      handlers.onReplay(message);
+      return;
+    }
+    const request = pending.get(message.id);
+    pending.delete(message.id);
+    if (request) {
+      request.resolve(message.result);
+    }
+  });
+  port.addEventListener('close', () => {
+    closed = true;
+    for (const request of pending.values()) {
+      request.reject(closedError());
+    }
+    pending.clear();
+    handlers.onClose();
+  });
+  port.start();
+
+  return {
+    request(message, transfer = []) {
+      if (closed) {
+        return Promise.reject(closedError());
+      }
+      nextRequestId += 1;
+      const id = nextRequestId;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        try {
+          port.postMessage({ ...message, id }, [...transfer]);
+        } catch (error) {
+          pending.delete(id);
+          reject(error);
+        }
+      });
+    },
+    send(message) {
+      if (!closed) {
+        port.postMessage(message);
+      }
+    },
+  };
+}
+
+function requestPort(serviceName) {
+  return new Promise((resolve) => {
+    const channel = servicePortChannel(serviceName);
+    const listener = (event) => {
+      runtime.ipcRenderer.removeListener(channel, listener);
+      const port = event.ports && event.ports[0];
+      if (!port) {
+        portClients.delete(serviceName);
+        resolve(undefined);
+        return;
+      }
+      resolve(createPortClient(serviceName, port, {
+        onEvent(eventName, payload) {
+          for (const callback of portEventListeners.get(serviceEventChannel(serviceName, eventName)) || []) {
+            callback(payload);
+          }
+        },
+        onReplay: deliverReplay,
+        onClose() {
+          portClients.delete(serviceName);
+        },
+      }));
+    };
+    runtime.ipcRenderer.on(channel, listener);
+    // Main posts the port before it answers; `false` (or no handler at all) keeps the service on ipc.
+    runtime.ipcRenderer.invoke(SERVICE_PORT_CHANNEL, serviceName)
+      .catch(() => false)
+      .then((connected) => {
+        if (!connected) {
+          runtime.ipcRenderer.removeListener(channel, listener);
+          resolve(undefined);
+        }
+      });
+  });
+}
+
+function connect(serviceName) {
+  if (IPC_TRANSPORT !== 'message-port') {
+    return undefined;
+  }
+  let client = portClients.get(serviceName);
+  if (!client) {
+    client = requestPort(serviceName);
+    portClients.set(serviceName, client);
+  }
+  return client;
+}
+
+// Main only listens once its first service is exposed, so a watch request sent earlier is lost.
+// It is sent again once the handshake shows main is listening, retrying while main is not.
+function requestServicesWatch() {
+  watchRetry = undefined;
+  if (registeredServices || serviceWatchers.size === 0) {
+    return;
+  }
+  runtime.ipcRenderer.send(SERVICES_WATCH_CHANNEL);
+  void checkProtocol().then((protocol) => {
+    if (protocol.ok) {
+      runtime.ipcRenderer.send(SERVICES_WATCH_CHANNEL);
+    } else if (!handshake) {
+      watchRetry ??= setTimeout(requestServicesWatch, SERVICES_WATCH_RETRY_MS);
+    }
+  });
+}
+
+function watchRegisteredServices() {
+  if (!servicesWatched) {
+    servicesWatched = true;
+    runtime.ipcRenderer.on(SERVICES_CHANGED_CHANNEL, (_event, serviceNames) => {
+      registeredServices = serviceNames;
+      for (const watcher of [...serviceWatchers]) {
+        watcher(serviceNames);
+      }
+    });
+  }
+  if (!watchRetry) {
+    requestServicesWatch();
+  }
+}
+
+// A main without a handshake handler predates the protocol (or is not listening yet), so it counts as version 0.
+function checkProtocol() {
+  if (!handshake) {
+    handshake = runtime.ipcRenderer.invoke(PROTOCOL_HANDSHAKE_CHANNEL, IPC_PROTOCOL_VERSION).catch(() => {
+      handshake = undefined;
+      return {
+        ok: false,
+        error: {
+          name: 'IPCError',
+          message: `[electron-ipc] Protocol version mismatch: preload bridge uses version ${IPC_PROTOCOL_VERSION}, `
+            + 'main uses version 0. Build the preload and main process from the same @rupertsworld/electron-ipc release.',
+          code: 'IPC_PROTOCOL_MISMATCH',
+        },
+      };
+    });
+  }
+  return handshake;
+}
+
 const bridge = {
-  invoke(serviceName, methodName, args) {
-    return runtime.ipcRenderer.invoke(serviceInvokeChannel(serviceName), methodName, args);
+  async call(serviceName, methodName, args, meta, transfer) {
+    const protocol = await checkProtocol();
+    if (!protocol.ok) {
+      return protocol;
+    }
+    const versionedMeta = { ...meta, protocolVersion: IPC_PROTOCOL_VERSION };
+    const client = await connect(serviceName);
+    if (client) {
+      return client.request({ type: 'call', methodName, args, meta: versionedMeta }, transfer);
+    }
+    return runtime.ipcRenderer.invoke(serviceInvokeChannel(serviceName), methodName, args, versionedMeta);
+  },
+  cancel(serviceName, methodName, callId, reason = 'abort') {
+    const sendCancel = (client) => {
+      if (client) {
+        client.send({ type: 'cancel', methodName, callId, reason });
+      } else {
+        runtime.ipcRenderer.send(CALL_CANCEL_CHANNEL, serviceName, methodName, callId, reason);
+      }
+    };
+    const client = connect(serviceName);
+    if (client) {
+      void client.then(sendCancel);
+    } else {
+      sendCancel(undefined);
+    }
+  },
+  async pull(serviceName, callId) {
+    const client = await connect(serviceName);
+    if (client) {
+      return client.request({ type: 'next', callId });
+    }
+    return runtime.ipcRenderer.invoke(STREAM_NEXT_CHANNEL, callId);
+  },
+  async invoke(serviceName, methodName, args) {
+    const result = await bridge.call(serviceName, methodName, args);
+    if (!result.ok) {
+      throw new Error(result.error.message);
+    }
+    return result.value;
   },
   hasService(serviceName) {
+    if (registeredServices && registeredServices.includes(serviceName)) {
+      return true;
+    }
     return Boolean(runtime.ipcRenderer.sendSync(SERVICE_EXISTS_CHANNEL, serviceName));
   },
-  on(serviceName, eventName, callback) {
+  on(serviceName, eventName, callback, onReplay) {
     const channel = serviceEventChannel(serviceName, eventName);
+    subscriptionCounter += 1;
+    const subscriptionId = String(subscriptionCounter);
+    if (onReplay) {
+      replayListeners.set(subscriptionId, onReplay);
+      if (!replayBound) {
+        replayBound = true;
+        runtime.ipcRenderer.on(EVENT_REPLAY_CHANNEL, (_event, replay) => deliverReplay(replay));
+      }
+    }
     const listener = (_event, payload) => callback(payload);
     runtime.ipcRenderer.on(channel, listener);
+    if (!portEventListeners.has(channel)) {
+      portEventListeners.set(channel, new Set());
+    }
+    portEventListeners.get(channel).add(callback);
+    void connect(serviceName);
+    runtime.ipcRenderer.send(SERVICE_SUBSCRIBE_CHANNEL, serviceName, eventName, subscriptionId);
+    let subscribed = true;
+    return () => {
+      if (!subscribed) {
+        return;
+      }
+      subscribed = false;
+      replayListeners.delete(subscriptionId);
+      runtime.ipcRenderer.removeListener(channel, listener);
+      portEventListeners.get(channel).delete(callback);
+      runtime.ipcRenderer.send(SERVICE_UNSUBSCRIBE_CHANNEL, serviceName, eventName);
+    };
+  },
+  onServiceDisposed(serviceName, callback) {
+    const channel = serviceDisposedChannel(serviceName);
+    const listener = () => callback();
+    runtime.ipcRenderer.on(channel, listener);
     return () => runtime.ipcRenderer.removeListener(channel, listener);
   },
+  exposeRendererService(serviceName, dispatch) {
+    if (rendererServices.has(serviceName)) {
+      throw new Error(`[electron-ipc] Renderer service "${serviceName}" is already registered`);
+    }
+    rendererServices.set(serviceName, dispatch);
+    return () => {
+      if (rendererServices.get(serviceName) === dispatch) {
+        rendererServices.delete(serviceName);
+      }
+    };
+  },
+  releaseCallbacks(callbackIds) {
+    runtime.ipcRenderer.send(CALLBACK_RELEASE_CHANNEL, ...callbackIds);
+  },
+  watchServices(callback) {
+    serviceWatchers.add(callback);
+    watchRegisteredServices();
+    if (registeredServices) {
+      callback(registeredServices);
+    }
+    return () => {
+      serviceWatchers.delete(callback);
+    };
+  },
+  async listServices() {
+    const protocol = await checkProtocol();
+    if (!protocol.ok) {
+      return protocol;
+    }
+    return runtime.ipcRenderer.invoke(SERVICES_LIST_CHANNEL);
+  },
+  async describeService(serviceName) {
+    const protocol = await checkProtocol();
+    if (!protocol.ok) {
+      return protocol;
+    }
+    return runtime.ipcRenderer.invoke(SERVICE_DESCRIBE_CHANNEL, serviceName);
+  },
 };
 
+// Bound up front so that main gets IPC_SERVICE_NOT_FOUND for pages that never expose a service.
+runtime.ipcRenderer.on(RENDERER_CALL_CHANNEL, (_event, request) => {
+  void handleRendererCall(request).then((result) => {
+    runtime.ipcRenderer.send(RENDERER_RESULT_CHANNEL, request.callId, result);
+  });
+});
 runtime.contextBridge.exposeInMainWorld(BRIDGE_KEY, bridge);
@@ -0,0 +1,125 @@
+import * as electron from 'electron';
+
+import { DEFAULT_CHANNELS } from './channels.ts';
+import type { IPCChannels } from './channels.ts';
+import { callTimeoutError, deserializeError, IPCError } from './errors.ts';
+import type { IPCResult } from './errors.ts';
+import type { AsyncService, RendererCallRequest } from './types.ts';
+import { onWebContentsReset } from './web-contents.ts';
+import type { WebContentsLike } from './web-contents.ts';
+
+type IpcMainOnLike = {
+  on(channel: string, listener: (event: { sender?: WebContentsLike }, ...args: unknown[]) => void): void;
+};
+
+export type ResolveRendererIPCOptions = {
+  timeoutMs?: number;
+};
+
+type PendingRendererCall = {
+  resolve(result: IPCResult): void;
+  reject(error: Error): void;
+};
+
+const pendingCalls = new Map<string, PendingRendererCall>();
+const boundNamespaces = new WeakMap<object, Set<string>>();
+const callIdPrefix = Math.random().toString(36).slice(2);
+let callCounter = 0;
+
+function resolveDefaultIpcMain(): IpcMainOnLike {
+  const runtime = electron as unknown as { ipcMain?: IpcMainOnLike };
+  if (!runtime.ipcMain) {
+    throw new Error('[electron-ipc] Electron runtime unavailable. Pass deps in tests or run inside Electron main.');
+  }
+  return runtime.ipcMain;
+}
+
+export function bindRendererResultListener(ipcMain: IpcMainOnLike, channels: IPCChannels = DEFAULT_CHANNELS): void {
+  const namespaces = boundNamespaces.get(ipcMain) ?? new Set<string>();
+  if (namespaces.has(channels.namespace)) {
+    return;
+  }
+  namespaces.add(channels.namespace);
+  boundNamespaces.set(ipcMain, namespaces);
+  ipcMain.on(channels.rendererResult, (event, callId, result) => {
+    const key = `${event.sender?.id}:${String(callId)}`;
+    pendingCalls.get(key)?.resolve(result as IPCResult);
+  });
+}
+
+// `target` names what the caller sees in errors, which for callbacks differs from the request.
+export function callRenderer(
+  webContents: WebContentsLike,
+  request: Omit<RendererCallRequest, 'callId'>,
+  target: { label: string; serviceName: string; methodName: string },
+  timeoutMs?: number,
+  channels: IPCChannels = DEFAULT_CHANNELS,
+): Promise<unknown> {
+  const goneError = () => new IPCError(
+    `[electron-ipc] ${target.label} was aborted: webContents ${webContents.id} went away`,
+    { code: 'IPC_ABORTED', serviceName: target.serviceName, methodName: target.methodName },
+  );
+  if (webContents.isDestroyed?.() || !webContents.send) {
+    return Promise.reject(goneError());
+  }
+  callCounter += 1;
+  const callId = `${callIdPrefix}-${callCounter}`;
+  const key = `${webContents.id}:${callId}`;
+  const startedAt = Date.now();
+
+  return new Promise<IPCResult>((resolve, reject) => {
+    const timer = timeoutMs !== undefined && timeoutMs > 0 && Number.isFinite(timeoutMs)
+      ? setTimeout(() => {
+        settle().reject(callTimeoutError(target.serviceName, target.methodName, Date.now() - startedAt));
+      }, timeoutMs)
+      : undefined;
+    const stopWatching = onWebContentsReset(webContents, () => settle().reject(goneError()));
+    const settle = () => {
+      clearTimeout(timer);
+      stopWatching();
+      pendingCalls.delete(key);
+      return { resolve, reject };
+    };
+    pendingCalls.set(key, {
+      resolve: (result) => settle().resolve(result),
+      reject: (error) => settle().reject(error),
+    });
+
+    webContents.send?.(channels.rendererCall, { ...request, callId } satisfies RendererCallRequest);
+  }).then((result) => {
+    if (!result.ok) {
+      throw deserializeError(result.error);
+    }
+    return result.value;
+  });
+}
+
+export function resolveRendererIPC<T extends object>(
+  target: WebContentsLike | { webContents: WebContentsLike },
+  serviceName: string,
+  options: ResolveRendererIPCOptions = {},
+  deps?: { ipcMain: IpcMainOnLike; channels?: IPCChannels },
+): AsyncService<T> {
+  const webContents = 'webContents' in target ? target.webContents : target;
+  const channels = deps?.channels ?? DEFAULT_CHANNELS;
+  bindRendererResultListener(deps?.ipcMain ?? resolveDefaultIpcMain(), channels);
+
+  return new Proxy({}, {
+    get(_target, property: string | symbol) {
+      if (typeof property !== 'string' || property === 'then') {
+        return undefined;
+      }
+      return (...args: readonly unknown[]) => callRenderer(
+        webContents,
+        { serviceName, methodName: property, args },
+        { label: `Renderer service "${serviceName}" method "${property}"`, serviceName, methodName: property },
+        options.timeoutMs,
+        channels,
+      );
+    },
+  }) as AsyncService<T>;
+}
+
+export function resetRendererCallsForTests(): void {
+  pendingCalls.clear();
+}
@@ -1,61 +1,568 @@
 import type { IPCBridgeAPI } from './bridge.ts';
-import type { AsyncService } from './types.ts';
+import { bridgeKey, CALLBACK_ARG_KEY, CALLBACK_SERVICE_NAME, IPC_NAMESPACE, STATE_EVENT_NAME } from './channels.ts';
+import {
+  callTimeoutError,
+  deserializeError,
+  IPCError,
+  serializeError,
+  serializeMethodError,
+  stripElectronInvokePrefix,
+} from './errors.ts';
+import { findServiceMethod, methodNotFoundError, serviceNotFoundError } from './methods.ts';
+import { runMiddleware } from './middleware.ts';
+import { resetMocksForTests } from './mock.ts';
+import type {
+  AsyncService,
+  CreateIPCRegistryOptions,
+  IPCCallMeta,
+  IPCCallOptions,
+  IPCMethodCallOptions,
+  IPCRetryPolicy,
+  IPCServiceManifest,
+  IPCStateStore,
+  IPCStateUpdate,
+  ResolveIPCOptions,
+  WaitForServiceOptions,
+} from './types.ts';
 
-const BRIDGE_KEY = 'ipcServiceBridge';
+const WITH_CALL_OPTIONS = Symbol('electron-ipc.withCallOptions');
+const STATE_STORE = Symbol('electron-ipc.stateStore');
+const callIdPrefix = Math.random().toString(36).slice(2);
+let callCounter = 0;
+const DEFAULT_RETRYABLE_CODES: readonly string[] = ['IPC_TIMEOUT'];
+let defaultCallOptions: IPCMethodCallOptions = {};
 type AnyListener = (payload: unknown) => void;
+type AnyCallback = (...args: unknown[]) => unknown;
+type EventSource = {
+  on(eventName: string, listener: AnyListener): unknown;
+  off(eventName: string, listener: AnyListener): unknown;
+};
+type CallbackEntry = { callback: AnyCallback; label: string; pending: number; retained: boolean };
+type CallbackRegistry = {
+  ids: WeakMap<AnyCallback, string>;
+  callbacks: Map<string, CallbackEntry>;
+};
+const callbackRegistries = new Map<IPCBridgeAPI, CallbackRegistry>();
+let callbackCounter = 0;
 
-function getBridge(): IPCBridgeAPI {
-  const bridge = (globalThis as Record<string, unknown>)[BRIDGE_KEY] as IPCBridgeAPI | undefined;
+export type IPCRendererRegistry = {
+  namespace: string;
+  resolveIPC<T extends object, TExposed extends keyof T = keyof T>(
+    serviceName: string,
+    options?: ResolveIPCOptions<T>,
+  ): AsyncService<T, TExposed>;
+  resolveIPCAsync<T extends object, TExposed extends keyof T = keyof T>(
+    serviceName: string,
+    options?: ResolveIPCOptions<T> & WaitForServiceOptions,
+  ): Promise<AsyncService<T, TExposed>>;
+  waitForService(serviceName: string, options?: WaitForServiceOptions): Promise<void>;
+  listServices(): Promise<IPCServiceManifest[]>;
+  describeService(serviceName: string): Promise<IPCServiceManifest>;
+  exposeRendererIPC<T extends object>(service: T, serviceName: string): () => void;
+};
+
+function getBridge(namespace: string = IPC_NAMESPACE): IPCBridgeAPI {
+  const bridge = (globalThis as Record<string, unknown>)[bridgeKey(namespace)] as IPCBridgeAPI | undefined;
   if (!bridge) {
-    throw new Error('[electron-ipc] IPC bridge is not enabled. Call enableIPC() in preload first.');
+    const call = namespace === IPC_NAMESPACE ? 'enableIPC()' : `enableIPC({ namespace: "${namespace}" })`;
+    throw new Error(`[electron-ipc] IPC bridge is not enabled. Call ${call} in preload first.`);
   }
   return bridge;
 }
 
 function normalizeInvokeError(serviceName: string, methodName: string, error: unknown): Error {
   if (error instanceof Error) {
-    if (error.message.includes(serviceName) && error.message.includes(methodName)) {
-      return error;
+    const message = stripElectronInvokePrefix(error.message);
+    if (message.includes(serviceName) && message.includes(methodName)) {
+      return message === error.message ? error : new Error(message);
     }
-    return new Error(`[electron-ipc] Service "${serviceName}" method "${methodName}" failed: ${error.message}`);
+    return new Error(`[electron-ipc] Service "${serviceName}" method "${methodName}" failed: ${message}`);
   }
   return new Error(`[electron-ipc] Service "${serviceName}" method "${methodName}" failed: ${String(error)}`);
 }
 
-export function resolveIPC<T extends object>(serviceName: string): AsyncService<T> {
+function abortedError(serviceName: string, methodName: string, reason: unknown): Error {
+  return new IPCError(`[electron-ipc] Service "${serviceName}" method "${methodName}" was aborted`, {
+    code: 'IPC_ABORTED',
+    serviceName,
+    methodName,
+    cause: reason,
+  });
+}
+
+function nextCallId(): string {
+  callCounter += 1;
+  return `${callIdPrefix}-${callCounter}`;
+}
+
+function getCallbackRegistry(bridge: IPCBridgeAPI): CallbackRegistry {
+  const existing = callbackRegistries.get(bridge);
+  if (existing) {
+    return existing;
+  }
+  const registry: CallbackRegistry = { ids: new WeakMap(), callbacks: new Map() };
+  bridge.exposeRendererService(CALLBACK_SERVICE_NAME, async (callbackId, args) => {
+    if (callbackId === 'release') {
+      for (const releasedId of args as readonly string[]) {
+        registry.callbacks.delete(releasedId);
+      }
+      return { ok: true, value: undefined };
+    }
+    const entry = registry.callbacks.get(callbackId);
+    if (!entry) {
+      return {
+        ok: false,
+        error: serializeError(new IPCError('[electron-ipc] Callback was released', { code: 'IPC_CALLBACK_RELEASED' })),
+      };
+    }
+    try {
+      return { ok: true, value: await entry.callback(...args) };
+    } catch (error) {
+      const serialized = serializeError(error);
+      return { ok: false, error: { ...serialized, message: `[electron-ipc] ${entry.label} failed: ${serialized.message}` } };
+    }
+  });
+  callbackRegistries.set(bridge, registry);
+  return registry;
+}
+
+// Functions cannot be cloned, so each one travels as a handle main can invoke until it is released.
+// settle() drops handles that were only ever passed to failed calls, matching what main does.
+function encodeCallbacks(
+  bridge: IPCBridgeAPI,
+  serviceName: string,
+  methodName: string,
+  args: readonly unknown[],
+): { args: readonly unknown[]; settle(succeeded: boolean): void } {
+  if (!args.some((arg) => typeof arg === 'function')) {
+    return { args, settle: () => undefined };
+  }
+  const registry = getCallbackRegistry(bridge);
+  const claims = new Map<string, CallbackEntry>();
+  const wireArgs = args.map((arg) => {
+    if (typeof arg !== 'function') {
+      return arg;
+    }
+    let callbackId = registry.ids.get(arg as AnyCallback);
+    let entry = callbackId === undefined ? undefined : registry.callbacks.get(callbackId);
+    if (!callbackId || !entry) {
+      callbackCounter += 1;
+      callbackId = `callback-${callbackCounter}`;
+      entry = {
+        callback: arg as AnyCallback,
+        label: `Callback passed to service "${serviceName}" method "${methodName}"`,
+        pending: 0,
+        retained: false,
+      };
+      registry.ids.set(arg as AnyCallback, callbackId);
+      registry.callbacks.set(callbackId, entry);
+    }
+    if (!claims.has(callbackId)) {
+      entry.pending += 1;
+      claims.set(callbackId, entry);
+    }
+    return { [CALLBACK_ARG_KEY]: callbackId };
+  });
+  return {
+    args: wireArgs,
+    settle(succeeded) {
+      for (const [callbackId, entry] of claims) {
+        entry.pending -= 1;
+        if (succeeded) {
+          entry.retained = true;
+        } else if (!entry.retained && entry.pending === 0 && registry.callbacks.get(callbackId) === entry) {
+          registry.callbacks.delete(callbackId);
+        }
+      }
+    },
+  };
+}
+
+function hasTimeout(timeoutMs: number | undefined): timeoutMs is number {
+  return timeoutMs !== undefined && timeoutMs > 0 && Number.isFinite(timeoutMs);
+}
+
+function isRetryable(retry: IPCRetryPolicy, error: unknown, attempt: number): boolean {
+  if (typeof retry.retryOn === 'function') {
+    return retry.retryOn(error, attempt);
+  }
+  const code = (error as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' && (retry.retryOn ?? DEFAULT_RETRYABLE_CODES).includes(code);
+}
+
+function retryDelay(retry: IPCRetryPolicy, attempt: number): number {
+  const delayMs = (retry.delayMs ?? 100) * (retry.factor ?? 2) ** (attempt - 1);
+  return Math.min(delayMs, retry.maxDelayMs ?? Number.POSITIVE_INFINITY);
+}
+
+function waitForRetry(delayMs: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+function createStateStore(events: EventSource): IPCStateStore<object> {
+  const listeners = new Set<() => void>();
+  let snapshot: object | undefined;
+  let version = 0;
+
+  const notify = () => {
+    for (const listener of [...listeners]) {
+      try {
+        listener();
+      } catch {
+        // Listener failures should not prevent delivery to remaining listeners.
+      }
+    }
+  };
+
+  const onUpdate = (payload: unknown) => {
+    const update = payload as IPCStateUpdate<object>;
+    if (update.state !== undefined) {
+      snapshot = update.state;
+    } else if (snapshot !== undefined && update.version === version + 1) {
+      snapshot = { ...snapshot, ...update.patch };
+    } else {
+      // A missed patch leaves the snapshot stale; subscribing again makes main send a fresh one.
+      events.off(STATE_EVENT_NAME, onUpdate);
+      events.on(STATE_EVENT_NAME, onUpdate);
+      return;
+    }
+    version = update.version;
+    notify();
+  };
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      if (listeners.size === 1) {
+        events.on(STATE_EVENT_NAME, onUpdate);
+      }
+      return () => {
+        if (listeners.delete(listener) && listeners.size === 0) {
+          events.off(STATE_EVENT_NAME, onUpdate);
+        }
+      };
+    },
+    getSnapshot: () => snapshot,
+  };
+}
+
+export function configureIPC(options: IPCMethodCallOptions): void {
+  defaultCallOptions = { ...defaultCallOptions, ...options };
+}
+
+export function resolveIPC<T extends object, TExposed extends keyof T = keyof T>(
+  serviceName: string,
+  options: ResolveIPCOptions<T> = {},
+): AsyncService<T, TExposed> {
+  return resolveFromBridge(getBridge(), serviceName, options);
+}
+
+export function waitForService(serviceName: string, options: WaitForServiceOptions = {}): Promise<void> {
+  return waitOnBridge(getBridge(), serviceName, options);
+}
+
+export async function resolveIPCAsync<T extends object, TExposed extends keyof T = keyof T>(
+  serviceName: string,
+  options: ResolveIPCOptions<T> & WaitForServiceOptions = {},
+): Promise<AsyncService<T, TExposed>> {
   const bridge = getBridge();
+  await waitOnBridge(bridge, serviceName, options);
+  return resolveFromBridge<T, TExposed>(bridge, serviceName, options);
+}
+
+export function listServices(): Promise<IPCServiceManifest[]> {
+  return listOnBridge(getBridge());
+}
+
+export function describeService(serviceName: string): Promise<IPCServiceManifest> {
+  return describeOnBridge(getBridge(), serviceName);
+}
+
+async function listOnBridge(bridge: IPCBridgeAPI): Promise<IPCServiceManifest[]> {
+  const result = await bridge.listServices();
+  if (!result.ok) {
+    throw deserializeError(result.error);
+  }
+  return result.value as IPCServiceManifest[];
+}
+
+async function describeOnBridge(bridge: IPCBridgeAPI, serviceName: string): Promise<IPCServiceManifest> {
+  const result = await bridge.describeService(serviceName);
+  if (!result.ok) {
+    throw deserializeError(result.error);
+  }
+  return result.value as IPCServiceManifest;
+}
+
+function waitOnBridge(bridge: IPCBridgeAPI, serviceName: string, options: WaitForServiceOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let stopWatching: (() => void) | undefined;
+    const settle = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      stopWatching?.();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const timer = hasTimeout(options.waitForMs)
+      ? setTimeout(() => settle(new IPCError(
+        `[electron-ipc] Service "${serviceName}" was not registered within ${options.waitForMs}ms`,
+        { code: 'IPC_SERVICE_NOT_FOUND', serviceName },
+      )), options.waitForMs)
+      : undefined;
+    // The bridge may report the cached list synchronously, before stopWatching is assigned.
+    stopWatching = bridge.watchServices((serviceNames) => {
+      if (serviceNames.includes(serviceName)) {
+        settle();
+      }
+    });
+    if (settled) {
+      stopWatching();
+    }
+  });
+}
+
+function resolveFromBridge<T extends object, TExposed extends keyof T = keyof T>(
+  bridge: IPCBridgeAPI,
+  serviceName: string,
+  options: ResolveIPCOptions<T>,
+): AsyncService<T, TExposed> {
   if (!bridge.hasService(serviceName)) {
-    throw new Error(`[electron-ipc] Service "${serviceName}" is not registered`);
+    throw serviceNotFoundError(serviceName);
   }
 
   const listenersByEvent = new Map<string, Set<AnyListener>>();
   const unsubscribeByEvent = new Map<string, () => void>();
+  const replayByEvent = new Map<string, { limit: number; payloads: unknown[] }>();
+  let disposed = false;
+  let stopWatchingDisposal: (() => void) | undefined;
+  let stateStore: IPCStateStore<object> | undefined;
+
+  const handleServiceDisposed = (): void => {
+    disposed = true;
+    stopWatchingDisposal?.();
+    stopWatchingDisposal = undefined;
+    listenersByEvent.clear();
+    replayByEvent.clear();
+    for (const unsubscribe of unsubscribeByEvent.values()) {
+      unsubscribe();
+    }
+    unsubscribeByEvent.clear();
+  };
+
+  const deliver = (eventName: string, payload: unknown, only?: AnyListener): void => {
+    const listeners = listenersByEvent.get(eventName);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of only ? [only] : [...listeners]) {
+      if (!listeners.has(listener)) {
+        continue;
+      }
+      try {
+        listener(payload);
+      } catch {
+        // Listener failures should not prevent delivery to remaining listeners.
+      }
+    }
+  };
 
-  const ensureRemoteSubscription = (eventName: string): void => {
+  const ensureRemoteSubscription = (eventName: string, listener: AnyListener): void => {
+    if (disposed) {
+      return;
+    }
     if (unsubscribeByEvent.has(eventName)) {
+      // Listeners added after the replay arrived get the buffered values the first listener received.
+      const replay = replayByEvent.get(eventName);
+      if (replay) {
+        const payloads = [...replay.payloads];
+        queueMicrotask(() => {
+          for (const payload of payloads) {
+            deliver(eventName, payload, listener);
+          }
+        });
+      }
       return;
     }
-    const unsubscribe = bridge.on(serviceName, eventName, (payload) => {
-      const listeners = listenersByEvent.get(eventName);
-      if (!listeners) {
-        return;
+    stopWatchingDisposal ??= bridge.onServiceDisposed(serviceName, handleServiceDisposed);
+    const unsubscribe = bridge.on(
+      serviceName,
+      eventName,
+      (payload) => {
+        const replay = replayByEvent.get(eventName);
+        if (replay) {
+          replay.payloads = [...replay.payloads, payload].slice(-replay.limit);
+        }
+        deliver(eventName, payload);
+      },
+      (payloads, limit) => {
+        replayByEvent.set(eventName, { limit, payloads: [...payloads] });
+        for (const payload of payloads) {
+          deliver(eventName, payload);
+        }
+      },
+    );
+    unsubscribeByEvent.set(eventName, unsubscribe);
+  };
+
+  const invokeOnce = async (
+    methodName: string,
+    args: readonly unknown[],
+    meta: IPCCallMeta,
+    signal: AbortSignal | undefined,
+    timeoutMs: number | undefined,
+    transfer: readonly Transferable[] | undefined,
+  ) => {
+    if (disposed) {
+      throw serviceNotFoundError(serviceName);
+    }
+    if (signal?.aborted) {
+      throw abortedError(serviceName, methodName, signal.reason);
+    }
+
+    const callId = nextCallId();
+    const startedAt = Date.now();
+    const callbacks = encodeCallbacks(bridge, serviceName, methodName, args);
+    const call = bridge.call(serviceName, methodName, callbacks.args, { ...meta, callId }, transfer).catch((error: unknown) => {
+      throw normalizeInvokeError(serviceName, methodName, error);
+    });
+    // Settles on main's answer rather than a local abort or timeout, which main may not have seen yet.
+    call.then((result) => callbacks.settle(result.ok), () => callbacks.settle(false));
+    const result = await (signal || hasTimeout(timeoutMs)
+      ? new Promise<Awaited<typeof call>>((resolve, reject) => {
+        const onAbort = () => {
+          bridge.cancel(serviceName, methodName, callId, 'abort');
+          reject(abortedError(serviceName, methodName, signal?.reason));
+        };
+        const timer = hasTimeout(timeoutMs)
+          ? setTimeout(() => {
+            bridge.cancel(serviceName, methodName, callId, 'timeout');
+            reject(callTimeoutError(serviceName, methodName, Date.now() - startedAt));
+          }, timeoutMs)
+          : undefined;
+        signal?.addEventListener('abort', onAbort, { once: true });
+        call.then(resolve, reject).finally(() => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        });
+      })
+      : call);
+    if (!result.ok) {
+      throw deserializeError(result.error);
+    }
+    return result.stream ? openRemoteStream(methodName, callId, signal) : result.value;
+  };
+
+  const openRemoteStream = (
+    methodName: string,
+    callId: string,
+    signal: AbortSignal | undefined,
+  ): AsyncIterableIterator<unknown> => {
+    let finished = false;
+    const finish = () => {
+      finished = true;
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      if (!finished) {
+        finish();
+        bridge.cancel(serviceName, methodName, callId, 'abort');
       }
-      for (const listener of [...listeners]) {
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    return {
+      async next() {
+        if (signal?.aborted) {
+          cancel();
+          throw abortedError(serviceName, methodName, signal.reason);
+        }
+        if (finished) {
+          return { done: true, value: undefined };
+        }
+        const result = await bridge.pull(serviceName, callId).catch((error: unknown) => {
+          finish();
+          throw normalizeInvokeError(serviceName, methodName, error);
+        });
+        if (!result.ok) {
+          finish();
+          throw deserializeError(result.error);
+        }
+        const step = result.value as IteratorResult<unknown>;
+        if (step.done) {
+          finish();
+          return { done: true, value: undefined };
+        }
+        return { done: false, value: step.value };
+      },
+      async return(value?: unknown) {
+        cancel();
+        return { done: true, value };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  };
+
+  const invokeRemote = async (methodName: string, args: readonly unknown[], callOptions: IPCCallOptions) => {
+    const methodOptions = options.methods?.[methodName as keyof T];
+    const { signal, timeoutMs, retry, transfer, correlationId = nextCallId() } = {
+      ...defaultCallOptions,
+      ...options,
+      ...methodOptions,
+      ...callOptions,
+    };
+    const interceptors = [
+      ...(defaultCallOptions.interceptors ?? []),
+      ...(options.interceptors ?? []),
+      ...(methodOptions?.interceptors ?? []),
+    ];
+
+    const call = { serviceName, methodName, args: [...args], correlationId };
+    return await runMiddleware(interceptors, call, async (callArgs) => {
+      for (let attempt = 1; ; attempt += 1) {
         try {
-          listener(payload);
-        } catch {
-          // Listener failures should not prevent delivery to remaining listeners.
+          return await invokeOnce(methodName, callArgs, { correlationId }, signal, timeoutMs, transfer);
+        } catch (error) {
+          // Without context isolation transferred buffers are detached after the first attempt, so such calls are never retried.
+          if (!retry || transfer || attempt >= retry.attempts || signal?.aborted || !isRetryable(retry, error, attempt)) {
+            throw error;
+          }
+          await waitForRetry(retryDelay(retry, attempt), signal);
         }
       }
     });
-    unsubscribeByEvent.set(eventName, unsubscribe);
   };
 
-  const api = new Proxy(
+  const createProxy = (callOptions: IPCCallOptions): object => new Proxy(
     {},
     {
       get(_target, property: string | symbol) {
-        if (typeof property !== 'string') {
+        if (property === WITH_CALL_OPTIONS) {
+          return (options: IPCCallOptions) => createProxy({ ...callOptions, ...options });
+        }
+        if (property === STATE_STORE) {
+          stateStore ??= createStateStore(api as EventSource);
+          return stateStore;
+        }
+        // Not thenable, so proxies can be returned from async functions such as resolveIPCAsync().
+        if (typeof property !== 'string' || property === 'then') {
           return undefined;
         }
 
@@ -65,7 +572,7 @@ export function resolveIPC<T extends object>(serviceName: string): AsyncService<
               listenersByEvent.set(eventName, new Set());
             }
             listenersByEvent.get(eventName)?.add(listener);
-            ensureRemoteSubscription(eventName);
+            ensureRemoteSubscription(eventName, listener);
             return api;
           };
         }
@@ -90,6 +597,7 @@ export function resolveIPC<T extends object>(serviceName: string): AsyncService<
             listeners.delete(listener);
             if (listeners.size === 0) {
               listenersByEvent.delete(eventName);
+              replayByEvent.delete(eventName);
               const unsubscribe = unsubscribeByEvent.get(eventName);
               unsubscribeByEvent.delete(eventName);
               unsubscribe?.();
@@ -98,20 +606,85 @@ export function resolveIPC<T extends object>(serviceName: string): AsyncService<
           };
         }
 
-        return async (...args: readonly unknown[]) => {
-          try {
-            return await bridge.invoke(serviceName, property, args);
-          } catch (error) {
-            throw normalizeInvokeError(serviceName, property, error);
-          }
-        };
+        return (...args: readonly unknown[]) => invokeRemote(property, args, callOptions);
       },
     },
   );
 
-  return api as AsyncService<T>;
+  const api = createProxy({});
+  return api as AsyncService<T, TExposed>;
+}
+
+export function exposeRendererIPC<T extends object>(service: T, serviceName: string): () => void {
+  return exposeOnBridge(getBridge(), service, serviceName);
+}
+
+function exposeOnBridge<T extends object>(bridge: IPCBridgeAPI, service: T, serviceName: string): () => void {
+  return bridge.exposeRendererService(serviceName, async (methodName, args) => {
+    const method = findServiceMethod(service, methodName, undefined);
+    if (!method) {
+      return { ok: false, error: serializeError(methodNotFoundError(serviceName, methodName)) };
+    }
+    try {
+      return { ok: true, value: await method.apply(service, [...args]) };
+    } catch (error) {
+      return { ok: false, error: serializeMethodError(serviceName, methodName, error) };
+    }
+  });
+}
+
+export function releaseIPCCallback(callback: (...args: never[]) => unknown): void {
+  for (const [bridge, registry] of callbackRegistries) {
+    const callbackId = registry.ids.get(callback as AnyCallback);
+    if (callbackId && registry.callbacks.delete(callbackId)) {
+      bridge.releaseCallbacks([callbackId]);
+    }
+  }
+}
+
+export function withCallOptions<TService extends object>(service: TService, options: IPCCallOptions): TService {
+  const factory = (service as { [WITH_CALL_OPTIONS]?: (options: IPCCallOptions) => TService })[WITH_CALL_OPTIONS];
+  if (typeof factory !== 'function') {
+    throw new Error('[electron-ipc] withCallOptions() expects a service proxy returned by resolveIPC()');
+  }
+  return factory(options);
+}
+
+export function getIPCStore<TService extends { getState(): Promise<object> }>(
+  service: TService,
+): IPCStateStore<Awaited<ReturnType<TService['getState']>>> {
+  const store = (service as { [STATE_STORE]?: IPCStateStore<Awaited<ReturnType<TService['getState']>>> })[STATE_STORE];
+  if (!store) {
+    throw new Error('[electron-ipc] getIPCStore() expects a service proxy returned by resolveIPC()');
+  }
+  return store;
+}
+
+// Registries look their bridge up on every call, so they can be created before the preload has run.
+export function createIPCRegistry(options: CreateIPCRegistryOptions = {}): IPCRendererRegistry {
+  const namespace = options.namespace ?? IPC_NAMESPACE;
+  return {
+    namespace,
+    resolveIPC: (serviceName, resolveOptions = {}) => resolveFromBridge(getBridge(namespace), serviceName, resolveOptions),
+    async resolveIPCAsync(serviceName, resolveOptions = {}) {
+      const bridge = getBridge(namespace);
+      await waitOnBridge(bridge, serviceName, resolveOptions);
+      return resolveFromBridge(bridge, serviceName, resolveOptions);
+    },
+    waitForService: (serviceName, waitOptions = {}) => waitOnBridge(getBridge(namespace), serviceName, waitOptions),
+    listServices: () => listOnBridge(getBridge(namespace)),
+    describeService: (serviceName) => describeOnBridge(getBridge(namespace), serviceName),
+    exposeRendererIPC: (service, serviceName) => exposeOnBridge(getBridge(namespace), service, serviceName),
+  };
 }
 
 export function resetRendererBridgeForTests(): void {
-  delete (globalThis as Record<string, unknown>)[BRIDGE_KEY];
+  delete (globalThis as Record<string, unknown>)[bridgeKey()];
+  defaultCallOptions = {};
+  callbackRegistries.clear();
+  resetMocksForTests();
 }
+
+export { IPCError, registerIPCError } from './errors.ts';
+export { mockIPC } from './mock.ts';
+export type { IPCMock, IPCMockCall } from './mock.ts';
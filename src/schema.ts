@@ -0,0 +1,179 @@
+import { IPCError } from './errors.ts';
+import type { IPCSchemaManifest } from './types.ts';
+
+export type StandardSchemaPathSegment = PropertyKey | { readonly key: PropertyKey };
+
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: readonly StandardSchemaPathSegment[] | undefined;
+};
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+// Structural copy of the Standard Schema v1 interface (https://standardschema.dev), so zod, valibot,
+// arktype and other compliant libraries work without a runtime dependency.
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+};
+
+export type StandardSchemaInput<S> = S extends StandardSchemaV1<infer Input, unknown> ? Input : unknown;
+export type StandardSchemaOutput<S> = S extends StandardSchemaV1<unknown, infer Output> ? Output : unknown;
+
+export type IPCMethodSchema = {
+  args?: readonly StandardSchemaV1[];
+  result?: StandardSchemaV1;
+};
+
+export type IPCServiceSchemas<T extends object = object> = {
+  methods?: { [K in keyof T]?: IPCMethodSchema };
+  events?: Record<string, StandardSchemaV1>;
+};
+
+type InferArgs<TArgs> = TArgs extends readonly StandardSchemaV1[]
+  ? { -readonly [I in keyof TArgs]: StandardSchemaInput<TArgs[I]> }
+  : unknown[];
+
+type InferResult<TResult> = TResult extends StandardSchemaV1 ? StandardSchemaOutput<TResult> : unknown;
+
+export type IPCSchemaMethods<TMethods extends Record<string, IPCMethodSchema>> = {
+  [K in keyof TMethods]: (...args: InferArgs<TMethods[K]['args']>) => InferResult<TMethods[K]['result']>;
+};
+
+export type IPCValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export function describeSchema(schema: StandardSchemaV1 | undefined): IPCSchemaManifest | undefined {
+  return schema ? { vendor: schema['~standard'].vendor } : undefined;
+}
+
+export function defineIPCSchemas<const TSchemas extends IPCServiceSchemas>(schemas: TSchemas): TSchemas {
+  return schemas;
+}
+
+function formatPath(root: string, path: readonly StandardSchemaPathSegment[] | undefined): string {
+  let formatted = root;
+  for (const segment of path ?? []) {
+    const key = typeof segment === 'object' ? segment.key : segment;
+    if (typeof key === 'number') {
+      formatted += `[${key}]`;
+    } else if (typeof key === 'string' && /^[A-Za-z_$][\w$]*$/.test(key)) {
+      formatted += `.${key}`;
+    } else {
+      formatted += `[${JSON.stringify(String(key))}]`;
+    }
+  }
+  return formatted;
+}
+
+function validationError(
+  description: string,
+  issues: readonly IPCValidationIssue[],
+  context: { serviceName: string; methodName?: string },
+): IPCError {
+  const summary = issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+  const error = new IPCError(`[electron-ipc] ${description}: ${summary}`, {
+    code: 'IPC_VALIDATION_FAILED',
+    serviceName: context.serviceName,
+    methodName: context.methodName,
+  });
+  return Object.assign(error, { issues });
+}
+
+async function validateValue(
+  schema: StandardSchemaV1,
+  value: unknown,
+  root: string,
+): Promise<{ value: unknown; issues?: IPCValidationIssue[] }> {
+  const result = await schema['~standard'].validate(value);
+  if (result.issues) {
+    return { value, issues: result.issues.map((issue) => ({ path: formatPath(root, issue.path), message: issue.message })) };
+  }
+  return { value: result.value };
+}
+
+export async function validateArgs(
+  schema: IPCMethodSchema | undefined,
+  args: readonly unknown[],
+  serviceName: string,
+  methodName: string,
+): Promise<unknown[]> {
+  if (!schema?.args) {
+    return [...args];
+  }
+
+  const validated: unknown[] = [];
+  const issues: IPCValidationIssue[] = [];
+  for (const [index, argSchema] of schema.args.entries()) {
+    const result = await validateValue(argSchema, args[index], `args[${index}]`);
+    issues.push(...(result.issues ?? []));
+    validated.push(result.value);
+  }
+  for (let index = schema.args.length; index < args.length; index += 1) {
+    issues.push({ path: `args[${index}]`, message: 'Unexpected argument' });
+  }
+
+  if (issues.length > 0) {
+    throw validationError(`Service "${serviceName}" method "${methodName}" received invalid arguments`, issues, {
+      serviceName,
+      methodName,
+    });
+  }
+  // Drop trailing `undefined` values so schemas for optional parameters keep default-parameter semantics.
+  while (validated.length > args.length && validated[validated.length - 1] === undefined) {
+    validated.pop();
+  }
+  return validated;
+}
+
+export async function validateResult(
+  schema: IPCMethodSchema | undefined,
+  value: unknown,
+  serviceName: string,
+  methodName: string,
+): Promise<unknown> {
+  if (!schema?.result) {
+    return value;
+  }
+  const result = await validateValue(schema.result, value, 'result');
+  if (result.issues) {
+    throw validationError(`Service "${serviceName}" method "${methodName}" returned an invalid result`, result.issues, {
+      serviceName,
+      methodName,
+    });
+  }
+  return result.value;
+}
+
+export function validateEventPayload(
+  schema: StandardSchemaV1 | undefined,
+  payload: unknown,
+  serviceName: string,
+  eventName: string,
+): unknown {
+  if (!schema) {
+    return payload;
+  }
+  const result = schema['~standard'].validate(payload);
+  if (result instanceof Promise) {
+    throw new IPCError(`[electron-ipc] Service "${serviceName}" event "${eventName}" schema must validate synchronously`, {
+      code: 'IPC_VALIDATION_FAILED',
+      serviceName,
+    });
+  }
+  if (result.issues) {
+    const issues = result.issues.map((issue) => ({ path: formatPath('payload', issue.path), message: issue.message }));
+    throw validationError(`Service "${serviceName}" event "${eventName}" payload is invalid`, issues, { serviceName });
+  }
+  return result.value;
+}
@@ -0,0 +1,22 @@
+import type { IPCResult } from './errors.ts';
+
+export type OpenStream = {
+  serviceName: string;
+  pull(): Promise<IPCResult>;
+  close(): Promise<void>;
+};
+
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { [Symbol.asyncIterator]?: unknown })[Symbol.asyncIterator] === 'function'
+  );
+}
+
+export function closeIterator(iterator: AsyncIterator<unknown>): Promise<void> {
+  // Generators run their finally blocks on return(); failures there have no caller left to report to.
+  return Promise.resolve()
+    .then(() => iterator.return?.())
+    .then(() => undefined, () => undefined);
+}
@@ -0,0 +1,90 @@
+import { onWebContentsReset } from './web-contents.ts';
+import type { WebContentsLike } from './web-contents.ts';
+
+export type SubscriptionRegistry = {
+  add(serviceName: string, eventName: string, sender: WebContentsLike): void;
+  remove(serviceName: string, eventName: string, webContentsId: number): void;
+  subscribers(serviceName: string, eventName: string): number[];
+  serviceSubscribers(serviceName: string): number[];
+  removeService(serviceName: string): void;
+  clear(): void;
+};
+
+export function createSubscriptionRegistry(): SubscriptionRegistry {
+  const countsByService = new Map<string, Map<string, Map<number, number>>>();
+  const trackedWebContents = new Set<number>();
+
+  const removeWebContents = (webContentsId: number): void => {
+    trackedWebContents.delete(webContentsId);
+    for (const [serviceName, countsByEvent] of countsByService) {
+      for (const [eventName, counts] of countsByEvent) {
+        counts.delete(webContentsId);
+        if (counts.size === 0) {
+          countsByEvent.delete(eventName);
+        }
+      }
+      if (countsByEvent.size === 0) {
+        countsByService.delete(serviceName);
+      }
+    }
+  };
+
+  return {
+    add(serviceName, eventName, sender) {
+      let countsByEvent = countsByService.get(serviceName);
+      if (!countsByEvent) {
+        countsByEvent = new Map();
+        countsByService.set(serviceName, countsByEvent);
+      }
+      let counts = countsByEvent.get(eventName);
+      if (!counts) {
+        counts = new Map();
+        countsByEvent.set(eventName, counts);
+      }
+      counts.set(sender.id, (counts.get(sender.id) ?? 0) + 1);
+
+      if (!trackedWebContents.has(sender.id)) {
+        trackedWebContents.add(sender.id);
+        onWebContentsReset(sender, () => removeWebContents(sender.id));
+      }
+    },
+    remove(serviceName, eventName, webContentsId) {
+      const countsByEvent = countsByService.get(serviceName);
+      const counts = countsByEvent?.get(eventName);
+      const current = counts?.get(webContentsId);
+      if (!countsByEvent || !counts || current === undefined) {
+        return;
+      }
+      if (current > 1) {
+        counts.set(webContentsId, current - 1);
+        return;
+      }
+      counts.delete(webContentsId);
+      if (counts.size === 0) {
+        countsByEvent.delete(eventName);
+      }
+      if (countsByEvent.size === 0) {
+        countsByService.delete(serviceName);
+      }
+    },
+    subscribers(serviceName, eventName) {
+      return [...(countsByService.get(serviceName)?.get(eventName)?.keys() ?? [])];
+    },
+    serviceSubscribers(serviceName) {
+      const ids = new Set<number>();
+      for (const counts of countsByService.get(serviceName)?.values() ?? []) {
+        for (const webContentsId of counts.keys()) {
+          ids.add(webContentsId);
+        }
+      }
+      return [...ids];
+    },
+    removeService(serviceName) {
+      countsByService.delete(serviceName);
+    },
+    clear() {
+      countsByService.clear();
+      trackedWebContents.clear();
+    },
+  };
+}
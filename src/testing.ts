@@ -0,0 +1,260 @@
+import { EventEmitter } from 'node:events';
+
+import { enableIPC } from './bridge.ts';
+import type { IpcMainInvokeEventLike } from './caller-context.ts';
+import { createIPCRegistry } from './main.ts';
+import type { ExposeIPCOptions } from './main.ts';
+import type { ResolveRendererIPCOptions } from './remote-renderer.ts';
+import { createIPCRegistry as createRendererIPCRegistry } from './renderer.ts';
+import type { AsyncService, CreateIPCRegistryOptions, IPCCallMeta, ResolveIPCOptions } from './types.ts';
+
+// These mirror the argument types main.ts reads from ipcMain.
+type MainHandler = (event: unknown, methodName: string, args: readonly unknown[], meta?: IPCCallMeta) => unknown;
+type MainListener = (event: IpcMainInvokeEventLike & { returnValue?: unknown }, ...args: string[]) => void;
+type RendererListener = (event: unknown, payload: unknown) => void;
+type ServiceCtor<T> = new () => T;
+
+export type TestIPCCall = {
+  webContentsId: number;
+  serviceName: string;
+  methodName: string;
+  args: unknown[];
+};
+
+export type TestIPCEvent = {
+  webContentsId: number;
+  serviceName: string;
+  eventName: string;
+  payload: unknown;
+};
+
+export type TestWindowOptions = {
+  id?: number;
+  url?: string;
+};
+
+export type TestWebContents = EventEmitter & {
+  id: number;
+  send(channel: string, payload: unknown): void;
+  isDestroyed(): boolean;
+};
+
+export type TestWindow = {
+  id: number;
+  webContents: TestWebContents;
+  resolveIPC<T extends object, TExposed extends keyof T = keyof T>(
+    serviceName: string,
+    options?: ResolveIPCOptions<T>,
+  ): AsyncService<T, TExposed>;
+  exposeRendererIPC<T extends object>(service: T, serviceName: string): () => void;
+  activate(): void;
+  reload(): void;
+  destroy(): void;
+};
+
+export type TestIPC = {
+  namespace: string;
+  calls: TestIPCCall[];
+  events: TestIPCEvent[];
+  windows: TestWindow[];
+  expose<T extends object>(
+    serviceOrCtor: T | ServiceCtor<T>,
+    serviceNameOrOptions?: string | Omit<ExposeIPCOptions<T>, 'transport'>,
+  ): () => Promise<void>;
+  createWindow(options?: TestWindowOptions): TestWindow;
+  resolveRendererIPC<T extends object>(
+    window: TestWindow,
+    serviceName: string,
+    options?: ResolveRendererIPCOptions,
+  ): AsyncService<T>;
+};
+
+// Everything crossing the fake boundary is cloned, so values Electron could not send fail here too.
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// Each harness owns its registry, so tests create a new one instead of resetting globals.
+export function createTestIPC(options: CreateIPCRegistryOptions = {}): TestIPC {
+  const registry = createIPCRegistry(options);
+  const rendererRegistry = createRendererIPCRegistry(options);
+  const invokeChannel = new RegExp(`^${registry.namespace}:service:(.+):invoke$`);
+  const eventChannel = new RegExp(`^${registry.namespace}:service:(.+?):event:(.+)$`);
+
+  const handlers = new Map<string, MainHandler>();
+  const mainListeners = new Map<string, Set<MainListener>>();
+  const windowsById = new Map<number, { window: TestWindow; deliver(channel: string, payload: unknown): void }>();
+  let nextWindowId = 1;
+
+  const ipcMain = {
+    handle(channel: string, handler: MainHandler) {
+      const serviceName = invokeChannel.exec(channel)?.[1];
+      handlers.set(channel, serviceName === undefined ? handler : (event, methodName, args, meta) => {
+        const webContentsId = (event as { sender: TestWebContents }).sender.id;
+        harness.calls.push({ webContentsId, serviceName, methodName, args: [...args] });
+        return handler(event, methodName, args, meta);
+      });
+    },
+    removeHandler(channel: string) {
+      handlers.delete(channel);
+    },
+    on(channel: string, listener: MainListener) {
+      if (!mainListeners.has(channel)) {
+        mainListeners.set(channel, new Set());
+      }
+      mainListeners.get(channel)?.add(listener);
+    },
+  };
+
+  const eventBus = {
+    send(webContentsId: number, channel: string, payload: unknown) {
+      const target = windowsById.get(webContentsId);
+      if (!target || target.window.webContents.isDestroyed()) {
+        return;
+      }
+      const match = eventChannel.exec(channel);
+      if (match) {
+        harness.events.push({ webContentsId, serviceName: match[1] as string, eventName: match[2] as string, payload });
+      }
+      target.deliver(channel, clone(payload));
+    },
+  };
+
+  const createWindow = (options: TestWindowOptions = {}): TestWindow => {
+    const id = options.id ?? nextWindowId;
+    if (windowsById.has(id)) {
+      throw new Error(`[electron-ipc] Test window ${id} already exists`);
+    }
+    nextWindowId = Math.max(nextWindowId, id) + 1;
+
+    let destroyed = false;
+    let rendererListeners = new Map<string, Set<RendererListener>>();
+    let globals: Record<string, unknown> = {};
+    const url = new URL(options.url ?? 'app://test/index.html');
+    // Node reports custom schemes as opaque origins; Electron gives registered app schemes a real one.
+    const origin = url.origin === 'null' ? `${url.protocol}//${url.host}` : url.origin;
+    const senderFrame = { url: url.href, origin, processId: id, routingId: 1, parent: null };
+
+    const deliver = (channel: string, payload: unknown) => {
+      for (const listener of [...(rendererListeners.get(channel) ?? [])]) {
+        listener({}, payload);
+      }
+    };
+
+    const webContents = Object.assign(new EventEmitter(), {
+      id,
+      send(channel: string, payload: unknown) {
+        if (!destroyed) {
+          deliver(channel, clone(payload));
+        }
+      },
+      isDestroyed: () => destroyed,
+    });
+
+    const mainEvent = () => ({ sender: webContents, senderFrame, processId: id, frameId: 1 });
+    const ipcRenderer = {
+      async invoke(channel: string, ...args: unknown[]) {
+        const handler = handlers.get(channel);
+        if (destroyed || !handler) {
+          throw new Error(destroyed ? `Test window ${id} was destroyed` : `No handler registered for '${channel}'`);
+        }
+        const [methodName, callArgs, meta] = clone(args) as [string, readonly unknown[], IPCCallMeta | undefined];
+        return clone(await handler(mainEvent(), methodName, callArgs, meta));
+      },
+      send(channel: string, ...args: unknown[]) {
+        if (destroyed) {
+          return;
+        }
+        for (const listener of [...(mainListeners.get(channel) ?? [])]) {
+          listener(mainEvent(), ...(clone(args) as string[]));
+        }
+      },
+      sendSync(channel: string, ...args: unknown[]) {
+        if (destroyed) {
+          return false;
+        }
+        const event: Parameters<MainListener>[0] = { ...mainEvent(), returnValue: undefined };
+        for (const listener of [...(mainListeners.get(channel) ?? [])]) {
+          listener(event, ...(clone(args) as string[]));
+        }
+        return event.returnValue as boolean;
+      },
+      on(channel: string, listener: RendererListener) {
+        if (!rendererListeners.has(channel)) {
+          rendererListeners.set(channel, new Set());
+        }
+        rendererListeners.get(channel)?.add(listener);
+      },
+      removeListener(channel: string, listener: RendererListener) {
+        rendererListeners.get(channel)?.delete(listener);
+      },
+    };
+
+    const loadDocument = () => {
+      rendererListeners = new Map();
+      globals = {};
+      enableIPC({
+        contextBridge: {
+          exposeInMainWorld(name, api) {
+            globals[name] = api;
+          },
+        },
+        ipcRenderer,
+        namespace: registry.namespace,
+      });
+    };
+
+    // resolveIPC() and friends read the bridge from globalThis, as page scripts would.
+    const withBridge = <R>(callback: () => R): R => {
+      const scope = globalThis as Record<string, unknown>;
+      const previous = Object.fromEntries(Object.keys(globals).map((name) => [name, scope[name]]));
+      Object.assign(scope, globals);
+      try {
+        return callback();
+      } finally {
+        Object.assign(scope, previous);
+      }
+    };
+
+    const window: TestWindow = {
+      id,
+      webContents,
+      resolveIPC: (serviceName, resolveOptions) => withBridge(() => rendererRegistry.resolveIPC(serviceName, resolveOptions)),
+      exposeRendererIPC: (service, serviceName) => withBridge(() => rendererRegistry.exposeRendererIPC(service, serviceName)),
+      activate() {
+        Object.assign(globalThis, globals);
+      },
+      reload() {
+        webContents.emit('did-navigate', url.href);
+        loadDocument();
+      },
+      destroy() {
+        if (destroyed) {
+          return;
+        }
+        destroyed = true;
+        webContents.emit('destroyed');
+        windowsById.delete(id);
+        harness.windows = harness.windows.filter((candidate) => candidate !== window);
+      },
+    };
+
+    loadDocument();
+    windowsById.set(id, { window, deliver });
+    harness.windows.push(window);
+    window.activate();
+    return window;
+  };
+
+  const harness: TestIPC = {
+    namespace: registry.namespace,
+    calls: [],
+    events: [],
+    windows: [],
+    expose: (serviceOrCtor, serviceNameOrOptions) => registry.exposeIPC(serviceOrCtor, serviceNameOrOptions, { ipcMain, eventBus }),
+    createWindow,
+    resolveRendererIPC: (window, serviceName, options) =>
+      registry.resolveRendererIPC(window.webContents, serviceName, options, { ipcMain }),
+  };
+  return harness;
+}
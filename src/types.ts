@@ -1,11 +1,142 @@
 export type EventMap = Record<string, unknown>;
 
-type AnyFunction = (...args: readonly unknown[]) => unknown;
+export type IPCCallMeta = {
+  callId?: string;
+  correlationId?: string;
+  protocolVersion?: number;
+};
+
+export type IPCRetryPolicy = {
+  attempts: number;
+  delayMs?: number;
+  factor?: number;
+  maxDelayMs?: number;
+  retryOn?: readonly string[] | ((error: unknown, attempt: number) => boolean);
+};
+
+export type IPCInterceptorCall = {
+  serviceName: string;
+  methodName: string;
+  args: unknown[];
+  correlationId: string;
+};
+
+export type IPCInterceptor = (call: IPCInterceptorCall, next: (args?: readonly unknown[]) => Promise<unknown>) => unknown;
+
+export type RendererCallRequest = {
+  serviceName: string;
+  callId: string;
+  methodName: string;
+  args: readonly unknown[];
+};
+
+export type EventReplay = {
+  subscriptionId: string;
+  eventName: string;
+  limit: number;
+  payloads: readonly unknown[];
+};
+
+// A state update carries either a full snapshot or a shallow patch, numbered so renderers can detect gaps.
+export type IPCStateUpdate<TState = unknown> = {
+  version: number;
+  state?: TState;
+  patch?: Partial<TState>;
+};
+
+export type IPCStateStore<TState> = {
+  subscribe(listener: () => void): () => void;
+  getSnapshot(): TState | undefined;
+};
+
+export type IPCTransport = 'ipc' | 'message-port';
+
+export type IPCCallOptions = {
+  signal?: AbortSignal;
+  transfer?: readonly Transferable[];
+  timeoutMs?: number;
+  retry?: IPCRetryPolicy | false;
+  correlationId?: string;
+};
+
+export type IPCMethodCallOptions = {
+  timeoutMs?: number;
+  retry?: IPCRetryPolicy | false;
+  interceptors?: readonly IPCInterceptor[];
+};
+
+export type ResolveIPCOptions<T extends object = object> = IPCMethodCallOptions & {
+  methods?: { [K in keyof T]?: IPCMethodCallOptions };
+};
+
+export type WaitForServiceOptions = {
+  waitForMs?: number;
+};
+
+type IPCEventTargetItem = number | { id: number } | { webContents: { id: number } } | 'caller';
+
+export type IPCEventTarget = IPCEventTargetItem | readonly IPCEventTargetItem[];
+
+type AnyFunction = (...args: never[]) => unknown;
+
+type EventMethodName = 'on' | 'once' | 'off';
+
+type MainOnlyMethodName =
+  | 'emit'
+  | 'emitTo'
+  | 'setEmitHook'
+  | 'dispose'
+  | 'replayEvent'
+  | 'getReplay'
+  | 'getReplayLimits'
+  | 'initState'
+  | 'setState';
+
+type RemoteKey<K, TExposed> = K extends EventMethodName
+  ? K
+  : K extends `_${string}` | MainOnlyMethodName
+    ? never
+    : K extends TExposed
+      ? K
+      : never;
+
+type RemoteResult<R> = R extends AsyncIterable<infer Item> ? AsyncIterableIterator<Item> : R;
 
-export type AsyncService<T extends object> = {
-  [K in keyof T]: T[K] extends AnyFunction
-    ? K extends 'on' | 'once' | 'off' | 'emit' | 'setEmitHook'
+export type AsyncService<T extends object, TExposed extends keyof T = keyof T> = {
+  [K in keyof T as RemoteKey<K, TExposed>]: T[K] extends AnyFunction
+    ? K extends EventMethodName
       ? T[K]
-      : (...args: Parameters<T[K]>) => Promise<Awaited<ReturnType<T[K]>>>
+      : (...args: Parameters<T[K]>) => Promise<RemoteResult<Awaited<ReturnType<T[K]>>>>
     : T[K];
 };
+
+export type CreateIPCRegistryOptions = {
+  namespace?: string;
+};
+
+export type IPCSchemaManifest = {
+  vendor: string;
+};
+
+export type IPCMethodManifest = {
+  name: string;
+  description?: string;
+  args?: IPCSchemaManifest[];
+  result?: IPCSchemaManifest;
+};
+
+export type IPCEventManifest = {
+  name: string;
+  description?: string;
+  payload?: IPCSchemaManifest;
+  replay?: number;
+};
+
+// Plain data describing a registered service, so it can cross the bridge as-is.
+export type IPCServiceManifest = {
+  name: string;
+  description?: string;
+  transport: IPCTransport;
+  methods: IPCMethodManifest[];
+  events: IPCEventManifest[];
+};
@@ -0,0 +1,62 @@
+export type WebContentsLike = {
+  id: number;
+  send?(channel: string, ...args: unknown[]): void;
+  postMessage?(channel: string, message: unknown, transfer?: unknown[]): void;
+  on?(eventName: string, listener: (...args: unknown[]) => void): unknown;
+  once?(eventName: string, listener: (...args: unknown[]) => void): unknown;
+  isDestroyed?(): boolean;
+};
+
+type WatchedWebContents = {
+  callbacks: Set<() => void>;
+};
+
+// Keyed by the webContents object, so separate test harnesses can reuse the same ids.
+let watchedWebContents = new WeakMap<WebContentsLike, WatchedWebContents>();
+
+function runResetCallbacks(watched: WatchedWebContents): void {
+  const callbacks = [...watched.callbacks];
+  watched.callbacks.clear();
+  for (const callback of callbacks) {
+    try {
+      callback();
+    } catch {
+      // Cleanup failures must not block remaining cleanup callbacks.
+    }
+  }
+}
+
+function watchWebContents(sender: WebContentsLike): WatchedWebContents {
+  const existing = watchedWebContents.get(sender);
+  if (existing) {
+    return existing;
+  }
+
+  const watched: WatchedWebContents = { callbacks: new Set() };
+  watchedWebContents.set(sender, watched);
+
+  sender.once?.('destroyed', () => {
+    watchedWebContents.delete(sender);
+    runResetCallbacks(watched);
+  });
+  // `did-navigate` only fires once a main-frame navigation commits a new document; downloads,
+  // 204 responses and cancelled loads leave the current page running.
+  sender.on?.('did-navigate', () => {
+    runResetCallbacks(watched);
+  });
+  return watched;
+}
+
+// Runs `callback` once when the renderer document behind `sender` goes away, either because the
+// webContents is destroyed or because its main frame commits a navigation or reload to a new document.
+export function onWebContentsReset(sender: WebContentsLike, callback: () => void): () => void {
+  const watched = watchWebContents(sender);
+  watched.callbacks.add(callback);
+  return () => {
+    watched.callbacks.delete(callback);
+  };
+}
+
+export function resetWebContentsWatchersForTests(): void {
+  watchedWebContents = new WeakMap();
+}
@@ -1,17 +1,46 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
 import path from 'node:path';
 import { existsSync, readFileSync } from 'node:fs';
 import vm from 'node:vm';
+import { MessageChannel } from 'node:worker_threads';
 
 import {
+  IPC_PROTOCOL_VERSION,
+  IPCError,
   IPCService,
+  configureIPC,
+  createIPCRegistry,
+  createRendererIPCRegistry,
+  createTestIPC,
+  describeIPCService,
+  describeService,
   enableIPC,
+  exposeHostedIPC,
   exposeIPC,
+  exposeRendererIPC,
+  getCallerContext,
+  getIPCStore,
+  listIPCServices,
+  listServices,
+  mockIPC,
+  onRemoteCallbackReleased,
+  releaseIPCCallback,
+  releaseRemoteCallback,
   getPreloadPath,
+  hostIPC,
+  registerIPCError,
   resetIPCRegistryForTests,
   resetRendererBridgeForTests,
   resolveIPC,
+  resolveIPCAsync,
+  resolveRendererIPC,
+  unexposeIPC,
+  useIPCMiddleware,
+  waitForService,
+  withCallOptions,
 } from '../src/index.ts';
+import type { EventMap, IPCMiddleware, StandardSchemaV1 } from '../src/index.ts';
 
 type GreetingEvents = {
   greeting: { text: string };
@@ -58,41 +87,130 @@ class MyService extends IPCService<GreetingEvents> implements IMyService {
   }
 }
 
-type InvokeHandler = (event: unknown, methodName: string, args: readonly unknown[]) => Promise<unknown> | unknown;
-type SyncListener = (event: { returnValue?: unknown }, serviceName: string) => void;
+function typeSchema<T>(type: 'string' | 'number'): StandardSchemaV1<T> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        typeof value === type ? { value: value as T } : { issues: [{ message: `Expected ${type}` }] },
+    },
+  };
+}
+
+function objectSchema<T>(shape: Record<string, StandardSchemaV1>): StandardSchemaV1<T> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: async (value) => {
+        const issues = [];
+        for (const [key, schema] of Object.entries(shape)) {
+          const result = await schema['~standard'].validate((value as Record<string, unknown> | undefined)?.[key]);
+          for (const issue of result.issues ?? []) {
+            issues.push({ message: issue.message, path: [key, ...(issue.path ?? [])] });
+          }
+        }
+        return issues.length > 0 ? { issues } : { value: value as T };
+      },
+    },
+  };
+}
+
+type InvokeHandler = (
+  event: unknown,
+  methodName: string,
+  args: readonly unknown[],
+  meta?: { callId?: string },
+) => Promise<unknown> | unknown;
+type MainListener = (event: { returnValue?: unknown; sender?: { id: number } }, ...args: string[]) => void;
 type RendererListener = (event: unknown, payload: unknown) => void;
 
-function createBoundaryHarness() {
+// The bridge's one-off protocol handshake also goes through invoke; these only count service calls.
+function serviceInvokes(invoke: { mock: { calls: unknown[][] } }): unknown[][] {
+  return invoke.mock.calls.filter(([channel]) => String(channel).endsWith(':invoke'));
+}
+
+function createNodeMessageChannel() {
+  const { port1, port2 } = new MessageChannel();
+  return {
+    port1: {
+      on(_eventName: 'message', listener: (messageEvent: { data: unknown }) => void) {
+        port1.on('message', (data) => listener({ data }));
+      },
+      postMessage: (message: unknown) => port1.postMessage(message),
+      start: () => port1.start(),
+      close: () => port1.close(),
+    },
+    port2,
+  };
+}
+
+function createInProcessHost() {
+  const { port1, port2 } = new MessageChannel();
+  const lifecycle = new EventEmitter();
+  const host = {
+    postMessage: (message: unknown) => port1.postMessage(message),
+    on(eventName: 'message' | 'exit' | 'error', listener: (value: unknown) => void) {
+      if (eventName === 'message') {
+        port1.on('message', listener);
+      } else {
+        lifecycle.on(eventName, listener);
+      }
+    },
+  };
+  const crash = (exitCode: number) => {
+    port1.close();
+    lifecycle.emit('exit', exitCode);
+  };
+  const fail = (error: Error) => {
+    port1.close();
+    lifecycle.emit('error', error);
+  };
+  return { host, hostPort: port2, crash, fail };
+}
+
+function createBoundaryHarness(invokeEvent: Record<string, unknown> = {}) {
   const invokeHandlers = new Map<string, InvokeHandler>();
-  const syncListeners = new Map<string, Set<SyncListener>>();
+  const mainListeners = new Map<string, Set<MainListener>>();
   const rendererListeners = new Map<string, Set<RendererListener>>();
+  const rendererWebContentsId = (invokeEvent.sender as { id?: number } | undefined)?.id ?? 1;
+  const sender = Object.assign(new EventEmitter(), { id: rendererWebContentsId });
 
   const ipcMain = {
     handle(channel: string, handler: InvokeHandler) {
       invokeHandlers.set(channel, handler);
     },
-    on(channel: string, listener: SyncListener) {
-      if (!syncListeners.has(channel)) {
-        syncListeners.set(channel, new Set());
+    removeHandler(channel: string) {
+      invokeHandlers.delete(channel);
+    },
+    on(channel: string, listener: MainListener) {
+      if (!mainListeners.has(channel)) {
+        mainListeners.set(channel, new Set());
       }
-      syncListeners.get(channel)?.add(listener);
+      mainListeners.get(channel)?.add(listener);
     },
   };
 
   const ipcRenderer = {
-    async invoke(channel: string, methodName: string, args: readonly unknown[]) {
+    async invoke(channel: string, methodName: string, args: readonly unknown[], meta?: { callId?: string }) {
       const handler = invokeHandlers.get(channel);
       if (!handler) {
         throw new Error(`No invoke handler for ${channel}`);
       }
-      return await handler({}, methodName, args);
+      return await handler({ ...invokeEvent, sender }, methodName, args, meta);
+    },
+    send(channel: string, ...args: unknown[]) {
+      for (const listener of mainListeners.get(channel) ?? []) {
+        listener({ ...invokeEvent, sender }, ...(args as string[]));
+      }
     },
     sendSync(channel: string, serviceName: string): boolean {
-      const listeners = syncListeners.get(channel);
+      const listeners = mainListeners.get(channel);
       if (!listeners || listeners.size === 0) {
         return false;
       }
-      const event: { returnValue?: unknown } = { returnValue: false };
+      const event: { returnValue?: unknown; sender?: { id: number } } = { returnValue: false, sender };
       for (const listener of listeners) {
         listener(event, serviceName);
       }
@@ -115,19 +233,38 @@ function createBoundaryHarness() {
     },
   };
 
-  const eventBus = {
-    broadcast(channel: string, payload: unknown) {
-      const listeners = rendererListeners.get(channel);
-      if (!listeners) {
-        return;
+  const sentTo: Array<{ webContentsId: number; channel: string; payload: unknown }> = [];
+  const deliver = (channel: string, payload: unknown) => {
+    const listeners = rendererListeners.get(channel);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      listener({}, payload);
+    }
+  };
+
+  Object.assign(sender, {
+    send(channel: string, payload: unknown) {
+      deliver(channel, payload);
+    },
+    postMessage(channel: string, message: unknown, transfer: unknown[] = []) {
+      for (const listener of [...(rendererListeners.get(channel) ?? [])]) {
+        listener({ ports: transfer }, message);
       }
-      for (const listener of [...listeners]) {
-        listener({}, payload);
+    },
+  });
+
+  const eventBus = {
+    send(webContentsId: number, channel: string, payload: unknown) {
+      sentTo.push({ webContentsId, channel, payload });
+      if (webContentsId === rendererWebContentsId) {
+        deliver(channel, payload);
       }
     },
   };
 
-  return { ipcMain, ipcRenderer, contextBridge, eventBus };
+  return { ipcMain, ipcRenderer, contextBridge, eventBus, sender, sentTo };
 }
 
 describe('electron-ipc runtime behavior', () => {
@@ -195,6 +332,100 @@ describe('electron-ipc runtime behavior', () => {
     expect(enabled).toBe(true);
   });
 
+  it('should reject calls with both protocol versions named when the preload bridge and main disagree', async () => {
+    const harness = createBoundaryHarness();
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    const handshakes: unknown[] = [];
+    const invoke = harness.ipcRenderer.invoke as (channel: string, ...args: unknown[]) => Promise<unknown>;
+    const futureBridge = {
+      ...harness.ipcRenderer,
+      invoke(channel: string, ...args: unknown[]) {
+        if (channel.endsWith(':protocol:handshake')) {
+          handshakes.push(args[0]);
+          return invoke(channel, IPC_PROTOCOL_VERSION + 1);
+        }
+        return invoke(channel, ...args);
+      },
+    };
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: futureBridge });
+
+    const service = resolveIPC<IMyService>('MyService');
+    await expect(service.sum(1, 2)).rejects.toMatchObject({
+      code: 'IPC_PROTOCOL_MISMATCH',
+      message: expect.stringContaining(
+        `preload bridge uses version ${IPC_PROTOCOL_VERSION + 1}, main uses version ${IPC_PROTOCOL_VERSION}`,
+      ),
+    });
+    await expect(service.hello('again')).rejects.toMatchObject({ code: 'IPC_PROTOCOL_MISMATCH' });
+    expect(handshakes).toEqual([IPC_PROTOCOL_VERSION]);
+
+    // Bridges from before the handshake call `invoke(channel, methodName, args)` and return whatever resolves.
+    const baselineBridge = harness.ipcRenderer.invoke as (channel: string, ...args: unknown[]) => Promise<unknown>;
+    await expect(baselineBridge('electron-ipc:service:MyService:invoke', 'sum', [1, 2])).rejects.toThrow(
+      `[electron-ipc] Protocol version mismatch: preload bridge uses version 0, main uses version ${IPC_PROTOCOL_VERSION}`,
+    );
+    await expect(baselineBridge('electron-ipc:service:MyService:invoke', 'sum', [1, 2], { protocolVersion: 99 }))
+      .rejects.toMatchObject({ code: 'IPC_PROTOCOL_MISMATCH' });
+
+    const shippedPreload = readFileSync(path.resolve(process.cwd(), 'src/preload.cjs'), 'utf8');
+    expect(shippedPreload).toContain(`const IPC_PROTOCOL_VERSION = ${IPC_PROTOCOL_VERSION};`);
+  });
+
+  it('should report a main without the handshake handler as a protocol mismatch', async () => {
+    const harness = createBoundaryHarness();
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    harness.ipcMain.removeHandler('electron-ipc:protocol:handshake');
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+
+    await expect(resolveIPC<IMyService>('MyService').sum(1, 2)).rejects.toMatchObject({
+      code: 'IPC_PROTOCOL_MISMATCH',
+      message: expect.stringContaining(`preload bridge uses version ${IPC_PROTOCOL_VERSION}, main uses version 0`),
+    });
+  });
+
+  it('should resolve services registered after the renderer starts waiting and cache them for later resolves', async () => {
+    const harness = createBoundaryHarness();
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    exposeIPC(new MyService(), 'Early', deps);
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+
+    const pending = resolveIPCAsync<IMyService>('MyService', { waitForMs: 1_000 });
+    await Promise.resolve();
+    exposeIPC(MyService, undefined, deps);
+    const service = await pending;
+    await expect(service.sum(2, 3)).resolves.toBe(5);
+
+    const sendSync = vi.spyOn(harness.ipcRenderer, 'sendSync');
+    await expect(resolveIPC<IMyService>('MyService').hello('again')).resolves.toBe('Hello again');
+    await waitForService('Early');
+    expect(sendSync).not.toHaveBeenCalled();
+
+    await unexposeIPC('MyService');
+    expect(() => resolveIPC('MyService')).toThrow('[electron-ipc] Service "MyService" is not registered');
+    await expect(waitForService('MyService', { waitForMs: 10 })).rejects.toMatchObject({
+      code: 'IPC_SERVICE_NOT_FOUND',
+      message: '[electron-ipc] Service "MyService" was not registered within 10ms',
+    });
+  });
+
+  it('should keep asking main to report services when the renderer starts waiting before anything is exposed', async () => {
+    vi.useFakeTimers();
+    try {
+      const harness = createBoundaryHarness();
+      enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+
+      const pending = resolveIPCAsync<IMyService>('MyService');
+      await vi.advanceTimersByTimeAsync(1_000);
+      exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+      await vi.advanceTimersByTimeAsync(250);
+
+      const service = await pending;
+      await expect(service.sum(2, 3)).resolves.toBe(5);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it('should register a service class using its class name when no explicit name is provided', async () => {
     const harness = createBoundaryHarness();
     enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
@@ -235,6 +466,1820 @@ describe('electron-ipc runtime behavior', () => {
     expect(received).toEqual(['Hello Alice']);
   });
 
+  it('should expose the calling webContents, frame and origin to service methods via getCallerContext()', async () => {
+    class ContextService {
+      whoAmI() {
+        const context = getCallerContext();
+        return {
+          serviceName: context?.serviceName,
+          methodName: context?.methodName,
+          webContentsId: context?.webContentsId,
+          processId: context?.processId,
+          frameUrl: context?.frameUrl,
+          origin: context?.origin,
+          isMainFrame: context?.isMainFrame,
+        };
+      }
+    }
+
+    const harness = createBoundaryHarness({
+      sender: { id: 7 },
+      processId: 42,
+      frameId: 1,
+      senderFrame: { url: 'https://app.example/index.html', parent: null },
+    });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(ContextService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<ContextService>('ContextService');
+    await expect(service.whoAmI()).resolves.toEqual({
+      serviceName: 'ContextService',
+      methodName: 'whoAmI',
+      webContentsId: 7,
+      processId: 42,
+      frameUrl: 'https://app.example/index.html',
+      origin: 'https://app.example',
+      isMainFrame: true,
+    });
+  });
+
+  it('should keep caller context across awaits and return undefined outside IPC calls', async () => {
+    class ContextService {
+      async later() {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getCallerContext()?.webContentsId;
+      }
+    }
+
+    const harness = createBoundaryHarness({ sender: { id: 3 } });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(ContextService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<ContextService>('ContextService');
+    await expect(service.later()).resolves.toBe(3);
+    expect(getCallerContext()).toBeUndefined();
+  });
+
+  it('should deliver emitTo() events only to the targeted webContents ids', async () => {
+    class DocumentService extends IPCService<{ saved: { id: string } }> {
+      save(id: string, windowIds: number[]) {
+        this.emitTo(windowIds, 'saved', { id });
+      }
+    }
+
+    const harness = createBoundaryHarness({ sender: { id: 1 } });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(DocumentService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<DocumentService>('DocumentService');
+    const received: string[] = [];
+    service.on('saved', (payload) => received.push(payload.id));
+
+    await service.save('elsewhere', [2, 3]);
+    await service.save('here', [1]);
+    expect(received).toEqual(['here']);
+    expect(harness.sentTo.map((entry) => entry.webContentsId)).toEqual([1]);
+  });
+
+  it('should deliver emitTo("caller") events to the webContents that made the current call', async () => {
+    class DocumentService extends IPCService<{ opened: { path: string } }> {
+      open(filePath: string) {
+        this.emitTo('caller', 'opened', { path: filePath });
+      }
+    }
+
+    const harness = createBoundaryHarness({ sender: { id: 9 } });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(DocumentService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<DocumentService>('DocumentService');
+    const received: string[] = [];
+    service.on('opened', (payload) => received.push(payload.path));
+
+    await service.open('/tmp/a.txt');
+    expect(received).toEqual(['/tmp/a.txt']);
+    expect(harness.sentTo).toEqual([
+      { webContentsId: 9, channel: 'electron-ipc:service:DocumentService:event:opened', payload: { path: '/tmp/a.txt' } },
+    ]);
+    expect(() => new DocumentService().open('/tmp/b.txt')).toThrow(/emitTo\("caller"\)/);
+  });
+
+  it('should only send events to webContents that subscribed to them', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService>('MyService');
+    await service.hello('nobody listening');
+    expect(harness.sentTo).toEqual([]);
+
+    const onGreeting = vi.fn();
+    service.on('greeting', onGreeting);
+    await service.hello('listening');
+    service.off('greeting', onGreeting);
+    await service.hello('unsubscribed');
+
+    expect(onGreeting).toHaveBeenCalledTimes(1);
+    expect(harness.sentTo.map((entry) => entry.payload)).toEqual([{ text: 'Hello listening' }]);
+  });
+
+  it('should ref-count subscriptions per webContents across resolved proxies', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const first = resolveIPC<IMyService>('MyService');
+    const second = resolveIPC<IMyService>('MyService');
+    const onFirst = vi.fn();
+    const onSecond = vi.fn();
+    first.on('greeting', onFirst);
+    second.on('greeting', onSecond);
+
+    first.off('greeting', onFirst);
+    await first.hello('still subscribed');
+    expect(onSecond).toHaveBeenCalledTimes(1);
+    expect(harness.sentTo).toHaveLength(1);
+  });
+
+  it('should drop subscriptions of a webContents once it is destroyed', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService>('MyService');
+    service.on('greeting', () => undefined);
+    harness.sender.emit('did-start-navigation', { isMainFrame: true, isSameDocument: false });
+    await service.hello('download');
+    expect(harness.sentTo).toHaveLength(1);
+
+    harness.sender.emit('destroyed');
+    await service.hello('gone');
+    expect(harness.sentTo).toHaveLength(1);
+  });
+
+  it('should accept an options object with a custom name in place of the service name', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, { name: 'Greeter' }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService>('Greeter');
+    await expect(service.sum(2, 3)).resolves.toBe(5);
+  });
+
+  it('should reject calls denied by the service or method access policy with a deterministic error', async () => {
+    const harness = createBoundaryHarness({
+      sender: { id: 4 },
+      senderFrame: { url: 'https://ads.example/frame.html', parent: {} },
+    });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(
+      MyService,
+      {
+        access: {
+          origins: ['https://ads.example'],
+          methods: {
+            sum: { mainFrameOnly: true },
+          },
+        },
+      },
+      { ipcMain: harness.ipcMain, eventBus: harness.eventBus },
+    );
+
+    const service = resolveIPC<IMyService>('MyService');
+    await expect(service.hello('iframe')).resolves.toBe('Hello iframe');
+    await expect(service.sum(1, 2)).rejects.toThrow('[electron-ipc] Access denied to service "MyService" method "sum"');
+  });
+
+  it('should treat calls from a frame that is already gone as not coming from the main frame', async () => {
+    const harness = createBoundaryHarness({ sender: { id: 4 }, senderFrame: null });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, { access: { mainFrameOnly: true } }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    await expect(resolveIPC<IMyService>('MyService').hello('leaked')).rejects.toMatchObject({
+      code: 'IPC_ACCESS_DENIED',
+      message: '[electron-ipc] Access denied to service "MyService" method "hello"',
+    });
+  });
+
+  it('should evaluate custom access predicates against the caller context', async () => {
+    const harness = createBoundaryHarness({
+      sender: { id: 5 },
+      senderFrame: { url: 'https://untrusted.example/', parent: null },
+    });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const allow = vi.fn(async (context: { origin?: string }) => context.origin === 'https://app.example');
+    exposeIPC(MyService, { access: { allow } }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService>('MyService');
+    await expect(service.hello('blocked')).rejects.toThrow(/Access denied/);
+    expect(allow).toHaveBeenCalledWith(expect.objectContaining({ webContentsId: 5, methodName: 'hello' }));
+  });
+
+  it('should withhold events, replays and manifests from renderers the service-level rule denies', async () => {
+    const harness = createBoundaryHarness({
+      sender: { id: 6 },
+      senderFrame: { url: 'https://evil.example/', parent: null },
+    });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    const guarded = new MyService().replayEvent('status', 1);
+    const open = new MyService();
+    guarded.emitStatus(true);
+    exposeIPC(guarded, { name: 'Guarded', access: { origins: ['https://app.example'] } }, deps);
+    exposeIPC(open, { name: 'Open', access: { origins: ['https://evil.example'] } }, deps);
+
+    const onGuarded = vi.fn();
+    const onOpen = vi.fn();
+    resolveIPC<IMyService>('Guarded').on('status', onGuarded);
+    resolveIPC<IMyService>('Open').on('status', onOpen);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    guarded.emitStatus(false);
+    open.emitStatus(true);
+
+    expect(onGuarded).not.toHaveBeenCalled();
+    expect(onOpen).toHaveBeenCalledWith({ ok: true });
+    await expect(describeService('Guarded')).rejects.toMatchObject({ code: 'IPC_ACCESS_DENIED' });
+    expect((await listServices()).map((manifest) => manifest.name)).toEqual(['Open']);
+  });
+
+  it('should deny access with IPC_ACCESS_DENIED when an access predicate throws', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const allow = () => {
+      throw new Error('db down');
+    };
+    exposeIPC(MyService, { access: { allow } }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    await expect(resolveIPC<IMyService>('MyService').sum(1, 2)).rejects.toMatchObject({
+      code: 'IPC_ACCESS_DENIED',
+      message: '[electron-ipc] Access denied to service "MyService" method "sum"',
+    });
+  });
+
+  it('should reject inherited Object.prototype members and underscore-prefixed helpers as RPC methods', async () => {
+    class HelperService {
+      _secret() {
+        return 'leaked';
+      }
+
+      ping() {
+        return 'pong';
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(HelperService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<HelperService>('HelperService') as unknown as Record<string, () => Promise<unknown>>;
+    for (const methodName of ['toString', 'hasOwnProperty', '__defineGetter__', '__proto__', 'valueOf', '_secret']) {
+      await expect(service[methodName]()).rejects.toThrow(/callable method/i);
+    }
+    await expect(service.ping()).resolves.toBe('pong');
+  });
+
+  it('should keep IPCService members off the wire and allow getState() only once state exists', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    const stateful = new MyService() as unknown as IPCService<GreetingEvents, { count: number }>;
+    exposeIPC(new MyService(), 'Stateless', deps);
+    exposeIPC(stateful, 'Stateful', deps);
+
+    const stateless = resolveIPC<IMyService>('Stateless') as unknown as Record<string, () => Promise<unknown>>;
+    for (const methodName of ['getState', 'emit', 'setState', 'getReplayLimits', 'notifyListeners', 'emitHook']) {
+      await expect(stateless[methodName]()).rejects.toMatchObject({ code: 'IPC_METHOD_NOT_FOUND' });
+    }
+    stateful.initState({ count: 1 });
+    const statefulProxy = resolveIPC<IMyService>('Stateful') as unknown as Record<string, () => Promise<unknown>>;
+    await expect(statefulProxy.getState()).resolves.toEqual({ count: 1 });
+    await expect(describeService('Stateful')).resolves.toMatchObject({
+      methods: expect.arrayContaining([{ name: 'getState' }]),
+    });
+  });
+
+  it('should only dispatch methods listed in the methods allowlist', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, { methods: ['hello'] }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService, 'hello'>('MyService') as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+    await expect(service.hello('listed')).resolves.toBe('Hello listed');
+    await expect(service.sum(1, 2)).rejects.toThrow(/callable method "sum"/);
+  });
+
+  it('should fail registration when the methods allowlist names a missing or non-dispatchable member', () => {
+    const harness = createBoundaryHarness();
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    expect(() => exposeIPC(MyService, { methods: ['nonCallable'] }, deps)).toThrow(/cannot expose "nonCallable"/);
+    expect(() => exposeIPC(MyService, { name: 'Other', methods: ['emit'] }, deps)).toThrow(/cannot expose "emit"/);
+  });
+
+  it('should remove the invoke handler and call dispose() when a service is unexposed', async () => {
+    const dispose = vi.fn(async () => undefined);
+    class PluginService extends IPCService<{ tick: number }> {
+      ping() {
+        return 'pong';
+      }
+
+      dispose() {
+        return dispose();
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(PluginService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<PluginService>('PluginService');
+    await expect(service.ping()).resolves.toBe('pong');
+    await expect((service as unknown as Record<string, () => Promise<unknown>>).dispose()).rejects.toThrow(
+      /callable method "dispose"/,
+    );
+
+    await unexposeIPC('PluginService');
+    expect(dispose).toHaveBeenCalledTimes(1);
+    await expect(harness.ipcRenderer.invoke('electron-ipc:service:PluginService:invoke', 'ping', [])).rejects.toThrow(
+      /No invoke handler/,
+    );
+    expect(() => resolveIPC<PluginService>('PluginService')).toThrow(/not registered/);
+    await expect(unexposeIPC('PluginService')).rejects.toThrow(/not registered/);
+  });
+
+  it('should notify subscribed renderers and stop forwarding events once a service is disposed', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const instance = new MyService();
+    const dispose = exposeIPC(instance, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService>('MyService');
+    const onGreeting = vi.fn();
+    service.on('greeting', onGreeting);
+
+    await dispose();
+    instance.hello('after dispose');
+
+    expect(onGreeting).not.toHaveBeenCalled();
+    expect(harness.sentTo.map((entry) => entry.channel)).toEqual(['electron-ipc:service:MyService:disposed']);
+    await expect(service.sum(1, 2)).rejects.toThrow('[electron-ipc] Service "MyService" is not registered');
+  });
+
+  it('should allow re-registering a service name after it is unexposed without the old disposer affecting it', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    const disposeFirst = exposeIPC(MyService, undefined, deps);
+    await disposeFirst();
+    exposeIPC(MyService, undefined, deps);
+    await disposeFirst();
+
+    const service = resolveIPC<IMyService>('MyService');
+    await expect(service.sum(2, 2)).resolves.toBe(4);
+  });
+
+  it('should transport error class, code, cause and custom fields to the renderer', async () => {
+    class QuotaExceededError extends Error {
+      readonly code = 'E_QUOTA';
+      readonly limit: number;
+
+      constructor(message: string, limit: number) {
+        super(message, { cause: new RangeError('disk full') });
+        this.name = 'QuotaExceededError';
+        this.limit = limit;
+      }
+    }
+    registerIPCError(QuotaExceededError);
+
+    class UploadService {
+      upload() {
+        throw new QuotaExceededError('quota exceeded', 10);
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(UploadService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<UploadService>('UploadService');
+    const error = await service.upload().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({
+      name: 'QuotaExceededError',
+      message: '[electron-ipc] Service "UploadService" method "upload" failed: quota exceeded',
+      code: 'E_QUOTA',
+      limit: 10,
+    });
+    expect((error as Error).cause).toMatchObject({ name: 'RangeError', message: 'disk full' });
+    expect((error as Error).stack).not.toContain('ipc-runtime.test.ts');
+  });
+
+  it('should reject framework failures with IPCError codes and only include stacks when enabled', async () => {
+    class FailingService {
+      fail() {
+        throw new TypeError('bad input');
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(FailingService, { errorStacks: true }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<FailingService>('FailingService');
+    const missing = await (service as unknown as Record<string, () => Promise<unknown>>).nope().catch((e: unknown) => e);
+    expect(missing).toBeInstanceOf(IPCError);
+    expect(missing).toMatchObject({ code: 'IPC_METHOD_NOT_FOUND', serviceName: 'FailingService', methodName: 'nope' });
+
+    const failed = await service.fail().catch((caught: unknown) => caught);
+    expect(failed).toMatchObject({ name: 'TypeError' });
+    expect((failed as Error).stack).toContain('ipc-runtime.test.ts');
+  });
+
+  it('should strip the Electron remote method prefix from transport-level rejections', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({
+      contextBridge: harness.contextBridge,
+      ipcRenderer: {
+        ...harness.ipcRenderer,
+        invoke: async (channel: string, ...args: unknown[]) => {
+          if (channel.endsWith(':protocol:handshake')) {
+            return await (harness.ipcRenderer.invoke as (channel: string, ...args: unknown[]) => Promise<unknown>)(channel, ...args);
+          }
+          throw new Error("Error invoking remote method 'electron-ipc:service:MyService:invoke': Error: channel closed");
+        },
+      },
+    });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService>('MyService');
+    await expect(service.sum(1, 2)).rejects.toThrow(
+      /^\[electron-ipc\] Service "MyService" method "sum" failed: channel closed$/,
+    );
+  });
+
+  it('should reject invalid arguments with a structured error naming service, method and failing path', async () => {
+    const invite = vi.fn((user: { name: string; age: number }) => `invited ${user.name}`);
+    class UserService {
+      invite(user: { name: string; age: number }) {
+        return invite(user);
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(
+      UserService,
+      {
+        schemas: {
+          methods: {
+            invite: { args: [objectSchema({ name: typeSchema('string'), age: typeSchema('number') })] },
+          },
+        },
+      },
+      { ipcMain: harness.ipcMain, eventBus: harness.eventBus },
+    );
+
+    const service = resolveIPC<UserService>('UserService');
+    await expect(service.invite({ name: 'Ada', age: 36 })).resolves.toBe('invited Ada');
+
+    const error = await service.invite({ name: 7, age: 36 } as never).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(IPCError);
+    expect(error).toMatchObject({
+      code: 'IPC_VALIDATION_FAILED',
+      serviceName: 'UserService',
+      methodName: 'invite',
+      issues: [{ path: 'args[0].name', message: 'Expected string' }],
+      message: '[electron-ipc] Service "UserService" method "invite" received invalid arguments: args[0].name: Expected string',
+    });
+    await expect((service.invite as (...args: unknown[]) => Promise<unknown>)({ name: 'Ada', age: 1 }, 'extra')).rejects.toThrow(
+      /args\[1\]: Unexpected argument/,
+    );
+    expect(invite).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate return values and event payloads when schemas are declared', async () => {
+    class StatusService extends IPCService<{ status: { ok: boolean } }> {
+      read(): number {
+        return 'not-a-number' as unknown as number;
+      }
+
+      broadcast(): void {
+        this.emit('status', { ok: 'yes' } as unknown as { ok: boolean });
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(
+      StatusService,
+      {
+        schemas: {
+          methods: { read: { result: typeSchema('number') } },
+          events: {
+            status: {
+              '~standard': {
+                version: 1,
+                vendor: 'test',
+                validate: (value) =>
+                  typeof (value as { ok?: unknown }).ok === 'boolean'
+                    ? { value }
+                    : { issues: [{ message: 'Expected boolean', path: [{ key: 'ok' }] }] },
+              },
+            },
+          },
+        },
+      },
+      { ipcMain: harness.ipcMain, eventBus: harness.eventBus },
+    );
+
+    const service = resolveIPC<StatusService>('StatusService');
+    await expect(service.read()).rejects.toThrow(/returned an invalid result: result: Expected number/);
+    await expect(service.broadcast()).rejects.toThrow(/event "status" payload is invalid: payload\.ok: Expected boolean/);
+  });
+
+  it('should describe registered services with their callable methods, declared events and schemas', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const service = new MyService().replayEvent('status', 1);
+    exposeIPC(
+      service,
+      {
+        name: 'Greeter',
+        methods: ['hello', 'sum'],
+        description: 'Says hello',
+        descriptions: { methods: { hello: 'Greets by name' }, events: { greeting: 'Sent after hello()' } },
+        schemas: { methods: { sum: { args: [typeSchema('number'), typeSchema('number')], result: typeSchema('number') } } },
+      },
+      { ipcMain: harness.ipcMain, eventBus: harness.eventBus },
+    );
+    exposeIPC(new MyService(), 'Plain', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const manifest = {
+      name: 'Greeter',
+      description: 'Says hello',
+      transport: 'ipc',
+      methods: [
+        { name: 'hello', description: 'Greets by name' },
+        { name: 'sum', args: [{ vendor: 'test' }, { vendor: 'test' }], result: { vendor: 'test' } },
+      ],
+      events: [
+        { name: 'greeting', description: 'Sent after hello()' },
+        { name: 'status', replay: 1 },
+      ],
+    };
+    expect(describeIPCService('Greeter')).toEqual(manifest);
+    await expect(describeService('Greeter')).resolves.toEqual(manifest);
+    const plain = await describeService('Plain');
+    expect(plain.methods.map((method) => method.name).sort()).toEqual(
+      ['delayedEcho', 'emitStatus', 'explode', 'hello', 'sum', 'weirdError'],
+    );
+    expect(plain.events).toEqual([]);
+    expect((await listServices()).map((entry) => entry.name)).toEqual(['Greeter', 'Plain']);
+    expect(listIPCServices()).toHaveLength(2);
+
+    await unexposeIPC('Plain');
+    await expect(describeService('Plain')).rejects.toMatchObject({
+      code: 'IPC_SERVICE_NOT_FOUND',
+      message: '[electron-ipc] Service "Plain" is not registered',
+    });
+    expect(describeIPCService('Plain')).toBeUndefined();
+  });
+
+  it('should abort in-flight calls from a renderer AbortSignal and surface the signal to the service method', async () => {
+    let serviceSignal: AbortSignal | undefined;
+    class IndexService {
+      async rebuild() {
+        serviceSignal = getCallerContext()?.signal;
+        await new Promise((resolve) => serviceSignal?.addEventListener('abort', resolve));
+        return 'finished';
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(IndexService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IndexService>('IndexService');
+    const controller = new AbortController();
+    const pending = withCallOptions(service, { signal: controller.signal }).rebuild();
+    await vi.waitFor(() => expect(serviceSignal).toBeDefined());
+
+    controller.abort();
+    const error = await pending.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(IPCError);
+    expect(error).toMatchObject({
+      code: 'IPC_ABORTED',
+      message: '[electron-ipc] Service "IndexService" method "rebuild" was aborted',
+    });
+    expect(serviceSignal?.aborted).toBe(true);
+    expect(serviceSignal?.reason).toMatchObject({ code: 'IPC_ABORTED' });
+  });
+
+  it('should reject immediately without calling main when the signal is already aborted', async () => {
+    const harness = createBoundaryHarness();
+    const invoke = vi.spyOn(harness.ipcRenderer, 'invoke');
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<IMyService>('MyService');
+    await expect(withCallOptions(service, { signal: AbortSignal.abort() }).sum(1, 2)).rejects.toMatchObject({
+      code: 'IPC_ABORTED',
+    });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('should abort in-flight calls when the calling webContents is destroyed', async () => {
+    let serviceSignal: AbortSignal | undefined;
+    class ExportService {
+      async exportAll() {
+        serviceSignal = getCallerContext()?.signal;
+        await new Promise((resolve) => serviceSignal?.addEventListener('abort', resolve));
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(ExportService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const service = resolveIPC<ExportService>('ExportService');
+    const pending = service.exportAll();
+    await vi.waitFor(() => expect(serviceSignal).toBeDefined());
+
+    harness.sender.emit('destroyed');
+    await expect(pending).rejects.toThrow(/was aborted: renderer went away/);
+    expect(serviceSignal?.aborted).toBe(true);
+  });
+
+  it('should time out per call, cancel the main-side signal and report service, method and elapsed time', async () => {
+    let serviceSignal: AbortSignal | undefined;
+    class SearchService {
+      async query() {
+        serviceSignal = getCallerContext()?.signal;
+        await new Promise((resolve) => serviceSignal?.addEventListener('abort', resolve));
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(SearchService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    vi.useFakeTimers();
+    try {
+      const service = resolveIPC<SearchService>('SearchService');
+      const pending = withCallOptions(service, { timeoutMs: 20 }).query().catch((caught: unknown) => caught);
+      await vi.advanceTimersByTimeAsync(20);
+      const error = await pending;
+      expect(error).toBeInstanceOf(IPCError);
+      expect(error).toMatchObject({ code: 'IPC_TIMEOUT', serviceName: 'SearchService', methodName: 'query', elapsedMs: 20 });
+      expect((error as Error).message).toBe('[electron-ipc] Service "SearchService" method "query" timed out after 20ms');
+      expect(serviceSignal?.reason).toMatchObject({ code: 'IPC_TIMEOUT' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should apply global, per-service and per-call timeouts with the most specific one winning', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    vi.useFakeTimers();
+    try {
+      configureIPC({ timeoutMs: 10 });
+      const slow = expect(resolveIPC<IMyService>('MyService').delayedEcho('slow', 50)).rejects.toMatchObject({
+        code: 'IPC_TIMEOUT',
+      });
+      await vi.advanceTimersByTimeAsync(10);
+      await slow;
+
+      const patient = resolveIPC<IMyService>('MyService', { timeoutMs: 1_000 });
+      const ok = patient.delayedEcho('ok', 30);
+      const unbounded = withCallOptions(patient, { timeoutMs: 0 }).delayedEcho('unbounded', 2_000);
+      await vi.advanceTimersByTimeAsync(2_000);
+      await expect(ok).resolves.toBe('ok');
+      await expect(unbounded).resolves.toBe('unbounded');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should enforce the exposeIPC timeout in main even when the renderer sets none', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, { timeoutMs: 10 }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    vi.useFakeTimers();
+    try {
+      const service = resolveIPC<IMyService>('MyService');
+      const slow = expect(service.delayedEcho('slow', 50)).rejects.toMatchObject({
+        code: 'IPC_TIMEOUT',
+        message: '[electron-ipc] Service "MyService" method "delayedEcho" timed out after 10ms',
+      });
+      await vi.advanceTimersByTimeAsync(10);
+      await slow;
+      await expect(service.sum(1, 2)).resolves.toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should run global then per-service middleware around calls with caller context, args and results', async () => {
+    const log: string[] = [];
+    const timing: IPCMiddleware = async (call, next) => {
+      log.push(`global:before ${call.serviceName}.${call.methodName}(${call.args.join(',')}) from ${call.context.webContentsId}`);
+      const result = await next();
+      log.push(`global:after ${String(result)}`);
+      return result;
+    };
+    const doubleArgs: IPCMiddleware = async (call, next) => {
+      log.push(`service:context ${getCallerContext()?.methodName}`);
+      const result = await next(call.args.map((value) => Number(value) * 2));
+      return Number(result) + 1;
+    };
+
+    const harness = createBoundaryHarness({ sender: { id: 7 } });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    useIPCMiddleware(timing);
+    exposeIPC(MyService, { middleware: [doubleArgs] }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    await expect(resolveIPC<IMyService>('MyService').sum(1, 2)).resolves.toBe(7);
+    expect(log).toEqual([
+      'global:before MyService.sum(1,2) from 7',
+      'service:context sum',
+      'global:after 7',
+    ]);
+  });
+
+  it('should let middleware short-circuit calls and observe or replace service errors', async () => {
+    const service = new MyService();
+    const sum = vi.spyOn(service, 'sum');
+    const observed: unknown[] = [];
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(service, {
+      middleware: [
+        async (call, next) => {
+          if (call.methodName === 'sum') {
+            return 'cached';
+          }
+          try {
+            return await next();
+          } catch (error) {
+            observed.push((error as Error).message);
+            throw new IPCError('feature disabled', { code: 'FEATURE_DISABLED' });
+          }
+        },
+      ],
+    }, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const proxy = resolveIPC<IMyService>('MyService');
+    await expect(proxy.sum(1, 2)).resolves.toBe('cached');
+    expect(sum).not.toHaveBeenCalled();
+    await expect(proxy.explode()).rejects.toMatchObject({
+      code: 'FEATURE_DISABLED',
+      message: '[electron-ipc] Service "MyService" method "explode" failed: feature disabled',
+    });
+    expect(observed).toEqual(['boom']);
+  });
+
+  it('should reject when middleware calls next() more than once and stop running once removed', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const remove = useIPCMiddleware(async (_call, next) => {
+      await next();
+      return await next();
+    });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const proxy = resolveIPC<IMyService>('MyService');
+    await expect(proxy.sum(1, 2)).rejects.toThrow(/next\(\) called more than once/);
+    remove();
+    await expect(proxy.sum(1, 2)).resolves.toBe(3);
+  });
+
+  it('should run renderer interceptors around calls and forward a correlation id to the caller context', async () => {
+    const seenInMain: Array<string | undefined> = [];
+    class AuditService {
+      record(entry: string) {
+        seenInMain.push(getCallerContext()?.correlationId);
+        return entry.toUpperCase();
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(AuditService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const log: string[] = [];
+    configureIPC({
+      interceptors: [
+        async (call, next) => {
+          log.push(`global ${call.methodName} ${call.correlationId}`);
+          return await next();
+        },
+      ],
+    });
+    const audit = resolveIPC<AuditService>('AuditService', {
+      interceptors: [async (call, next) => `${String(await next([`${call.args[0]}!`]))}?`],
+    });
+
+    await expect(withCallOptions(audit, { correlationId: 'req-1' }).record('saved')).resolves.toBe('SAVED!?');
+    expect(log).toEqual(['global record req-1']);
+    expect(seenInMain).toEqual(['req-1']);
+  });
+
+  it('should retry retryable error codes with backoff per service or per method and keep the correlation id', async () => {
+    const correlationIds: Array<string | undefined> = [];
+    let failuresLeft = 2;
+    class FlakyService {
+      fetch() {
+        correlationIds.push(getCallerContext()?.correlationId);
+        if (failuresLeft > 0) {
+          failuresLeft -= 1;
+          throw new IPCError('busy', { code: 'BUSY' });
+        }
+        return 'data';
+      }
+
+      save() {
+        throw new IPCError('invalid', { code: 'INVALID' });
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    const invoke = vi.spyOn(harness.ipcRenderer, 'invoke');
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(FlakyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const flaky = resolveIPC<FlakyService>('FlakyService', {
+      retry: { attempts: 2, delayMs: 1, retryOn: ['BUSY'] },
+      methods: { fetch: { retry: { attempts: 3, delayMs: 5, factor: 2, retryOn: ['BUSY'] } } },
+    });
+    const startedAt = Date.now();
+    await expect(flaky.fetch()).resolves.toBe('data');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(10);
+    expect(correlationIds).toHaveLength(3);
+    expect(new Set(correlationIds).size).toBe(1);
+
+    invoke.mockClear();
+    await expect(flaky.save()).rejects.toMatchObject({ code: 'INVALID' });
+    expect(invoke).toHaveBeenCalledTimes(1);
+
+    failuresLeft = 5;
+    invoke.mockClear();
+    await expect(withCallOptions(flaky, { retry: false }).fetch()).rejects.toMatchObject({ code: 'BUSY' });
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry timed out calls by default and stop retrying once the signal aborts', async () => {
+    const harness = createBoundaryHarness();
+    const invoke = vi.spyOn(harness.ipcRenderer, 'invoke');
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    vi.useFakeTimers();
+    try {
+      const service = resolveIPC<IMyService>('MyService', { timeoutMs: 5, retry: { attempts: 3, delayMs: 1 } });
+      const slow = expect(service.delayedEcho('slow', 50)).rejects.toMatchObject({ code: 'IPC_TIMEOUT' });
+      await vi.advanceTimersByTimeAsync(100);
+      await slow;
+      expect(serviceInvokes(invoke)).toHaveLength(3);
+
+      invoke.mockClear();
+      const controller = new AbortController();
+      const pending = withCallOptions(service, { signal: controller.signal, retry: { attempts: 5, delayMs: 1_000 } })
+        .delayedEcho('slow', 50);
+      await vi.advanceTimersByTimeAsync(20);
+      expect(serviceInvokes(invoke)).toHaveLength(1);
+      controller.abort();
+      await expect(pending).rejects.toMatchObject({ code: 'IPC_ABORTED' });
+      expect(serviceInvokes(invoke)).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should stream async iterable results to the renderer one pulled item at a time', async () => {
+    const produced: number[] = [];
+    class LogService {
+      async *tail(count: number) {
+        for (let line = 1; line <= count; line += 1) {
+          produced.push(line);
+          yield `line ${line} (${getCallerContext()?.methodName})`;
+        }
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(LogService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const logs = resolveIPC<LogService>('LogService');
+    const lines = await logs.tail(3);
+    expect(produced).toEqual([]);
+
+    await expect(lines.next()).resolves.toEqual({ done: false, value: 'line 1 (tail)' });
+    expect(produced).toEqual([1]);
+
+    const rest: string[] = [];
+    for await (const line of lines) {
+      rest.push(line);
+    }
+    expect(rest).toEqual(['line 2 (tail)', 'line 3 (tail)']);
+    await expect(lines.next()).resolves.toEqual({ done: true, value: undefined });
+  });
+
+  it('should pull long streams without piling up abort listeners', async () => {
+    const warnings: Error[] = [];
+    const onWarning = (warning: Error) => warnings.push(warning);
+    process.on('warning', onWarning);
+    try {
+      const service = {
+        async *count() {
+          for (let value = 0; value < 20; value += 1) {
+            yield value;
+          }
+        },
+      };
+      const harness = createBoundaryHarness();
+      enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+      exposeIPC(service, 'Counter', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+      const values: number[] = [];
+      for await (const value of await resolveIPC<typeof service>('Counter').count()) {
+        values.push(value);
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(values).toHaveLength(20);
+      expect(warnings.filter((warning) => warning.name === 'MaxListenersExceededWarning')).toEqual([]);
+    } finally {
+      process.off('warning', onWarning);
+    }
+  });
+
+  it('should cancel the main-side generator when the renderer breaks out of a stream', async () => {
+    let finalized = false;
+    let serviceSignal: AbortSignal | undefined;
+    class SearchService {
+      async *results() {
+        serviceSignal = getCallerContext()?.signal;
+        try {
+          for (let index = 0; ; index += 1) {
+            yield index;
+          }
+        } finally {
+          finalized = true;
+        }
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(SearchService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const received: number[] = [];
+    for await (const index of await resolveIPC<SearchService>('SearchService').results()) {
+      received.push(index);
+      if (index === 2) {
+        break;
+      }
+    }
+
+    expect(received).toEqual([0, 1, 2]);
+    await vi.waitFor(() => expect(finalized).toBe(true));
+    expect(serviceSignal?.aborted).toBe(true);
+  });
+
+  it('should abort in-flight calls and close open streams before disposing an unexposed service', async () => {
+    const steps: string[] = [];
+    let callSignal: AbortSignal | undefined;
+    class SearchService {
+      wait() {
+        callSignal = getCallerContext()?.signal;
+        return new Promise(() => undefined);
+      }
+
+      async *results() {
+        try {
+          for (let index = 0; ; index += 1) {
+            yield index;
+          }
+        } finally {
+          steps.push('stream closed');
+        }
+      }
+
+      dispose() {
+        steps.push(`disposed (call aborted: ${String(callSignal?.aborted)})`);
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const unexpose = exposeIPC(SearchService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    const search = resolveIPC<SearchService>('SearchService');
+    const pending = search.wait();
+    const results = await search.results();
+    await expect(results.next()).resolves.toEqual({ done: false, value: 0 });
+    await vi.waitFor(() => expect(callSignal).toBeDefined());
+
+    await unexpose();
+    expect(steps).toEqual(['stream closed', 'disposed (call aborted: true)']);
+    await expect(pending).rejects.toMatchObject({
+      code: 'IPC_ABORTED',
+      message: '[electron-ipc] Service "SearchService" method "wait" was aborted: service was unexposed',
+    });
+    await expect(results.next()).rejects.toMatchObject({ code: 'IPC_ABORTED' });
+  });
+
+  it('should surface errors thrown mid-stream inside the renderer loop', async () => {
+    class ImportService {
+      async *importFiles() {
+        yield { done: 1 };
+        throw new IPCError('disk full', { code: 'DISK_FULL' });
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeIPC(ImportService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const progress: unknown[] = [];
+    const consume = async () => {
+      for await (const step of await resolveIPC<ImportService>('ImportService').importFiles()) {
+        progress.push(step);
+      }
+    };
+
+    await expect(consume()).rejects.toMatchObject({
+      code: 'DISK_FULL',
+      message: '[electron-ipc] Service "ImportService" method "importFiles" failed: disk full',
+    });
+    expect(progress).toEqual([{ done: 1 }]);
+  });
+
+  it('should carry calls, events and transferred buffers over a message port when both sides opt in', async () => {
+    class ImageService extends IPCService<{ processed: { bytes: number } }> {
+      measure(image: ArrayBuffer) {
+        this.emit('processed', { bytes: image.byteLength });
+        return new Uint8Array(image).reduce((total, value) => total + value, 0);
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    const invoke = vi.spyOn(harness.ipcRenderer, 'invoke');
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer, transport: 'message-port' });
+    exposeIPC(ImageService, { transport: 'message-port' }, {
+      ipcMain: harness.ipcMain,
+      eventBus: harness.eventBus,
+      createMessageChannel: createNodeMessageChannel,
+    });
+
+    const images = resolveIPC<ImageService>('ImageService');
+    const processed = vi.fn();
+    images.on('processed', processed);
+
+    const image = new Uint8Array([1, 2, 3, 4]).buffer;
+    await expect(withCallOptions(images, { transfer: [image] }).measure(image)).resolves.toBe(10);
+    expect(image.byteLength).toBe(0);
+    await vi.waitFor(() => expect(processed).toHaveBeenCalledWith({ bytes: 4 }));
+    expect(serviceInvokes(invoke)).toEqual([]);
+    expect(harness.sentTo.filter(({ channel }) => channel.includes(':event:'))).toEqual([]);
+  });
+
+  it('should fall back to invoke when a service is not exposed over a message port', async () => {
+    const harness = createBoundaryHarness();
+    const invoke = vi.spyOn(harness.ipcRenderer, 'invoke');
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer, transport: 'message-port' });
+    exposeIPC(MyService, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    await expect(resolveIPC<IMyService>('MyService').sum(2, 3)).resolves.toBe(5);
+    expect(serviceInvokes(invoke)).toHaveLength(1);
+    expect(() => exposeIPC(MyService, { name: 'PortService', transport: 'message-port' }, {
+      ipcMain: harness.ipcMain,
+      eventBus: harness.eventBus,
+    })).toThrow('[electron-ipc] Service "PortService" requires MessageChannelMain for the message-port transport');
+  });
+
+  it('should let the shipped preload select the message-port transport from its arguments', async () => {
+    class ClockService extends IPCService<{ tick: number }> {
+      now() {
+        this.emit('tick', 1);
+        return 42;
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    const invoke = vi.spyOn(harness.ipcRenderer, 'invoke');
+    const sendSync = vi.spyOn(harness.ipcRenderer, 'sendSync');
+    exposeIPC(ClockService, { transport: 'message-port' }, {
+      ipcMain: harness.ipcMain,
+      eventBus: harness.eventBus,
+      createMessageChannel: createNodeMessageChannel,
+    });
+    vm.runInNewContext(readFileSync(path.resolve(process.cwd(), 'src/preload.cjs'), 'utf8'), {
+      process: { argv: ['electron', '--electron-ipc-transport=message-port'] },
+      require: () => ({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer }),
+    });
+
+    const clock = resolveIPC<ClockService>('ClockService');
+    const ticks = vi.fn();
+    clock.on('tick', ticks);
+    await expect(clock.now()).resolves.toBe(42);
+    await vi.waitFor(() => expect(ticks).toHaveBeenCalledWith(1));
+    expect(serviceInvokes(invoke)).toEqual([]);
+    expect(invoke).toHaveBeenCalledWith('electron-ipc:service:port', 'ClockService');
+    expect(sendSync.mock.calls.map(([channel]) => channel)).not.toContain('electron-ipc:service:port');
+    expect(harness.sentTo.filter(({ channel }) => channel.includes(':event:'))).toEqual([]);
+  });
+
+  it('should route renderer calls and events through main to a service hosted in another thread', async () => {
+    class ThumbnailService extends IPCService<{ rendered: { file: string } }> {
+      render(file: string) {
+        const caller = getCallerContext();
+        this.emitTo('caller', 'rendered', { file });
+        return `${file}.png from ${caller?.webContentsId} (${caller?.correlationId})`;
+      }
+
+      explode(): void {
+        throw new IPCError('decoder crashed', { code: 'DECODE_FAILED' });
+      }
+    }
+
+    const { host, hostPort, crash } = createInProcessHost();
+    hostIPC(ThumbnailService, { port: hostPort });
+    const harness = createBoundaryHarness({ sender: { id: 4 } });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    await exposeHostedIPC(host, undefined, { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const thumbnails = resolveIPC<ThumbnailService>('ThumbnailService');
+    const rendered = vi.fn();
+    thumbnails.on('rendered', rendered);
+
+    await expect(withCallOptions(thumbnails, { correlationId: 'c-1' }).render('cat')).resolves.toBe('cat.png from 4 (c-1)');
+    await vi.waitFor(() => expect(rendered).toHaveBeenCalledWith({ file: 'cat' }));
+    await expect(thumbnails.explode()).rejects.toMatchObject({
+      code: 'DECODE_FAILED',
+      message: '[electron-ipc] Service "ThumbnailService" method "explode" failed: decoder crashed',
+    });
+    crash(0);
+  });
+
+  it('should reject pending and later calls with a clear error when the service host exits', async () => {
+    let encoding = false;
+    class EncoderService {
+      encode() {
+        encoding = true;
+        return new Promise(() => undefined);
+      }
+    }
+
+    const { host, hostPort, crash } = createInProcessHost();
+    hostIPC(EncoderService, { port: hostPort });
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    await exposeHostedIPC(host, 'Encoder', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const encoder = resolveIPC<EncoderService>('Encoder');
+    const pending = encoder.encode();
+    await vi.waitFor(() => expect(encoding).toBe(true));
+    crash(3);
+
+    const error = await pending.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(IPCError);
+    expect(error).toMatchObject({
+      code: 'IPC_HOST_EXITED',
+      message: '[electron-ipc] Host of service "Encoder" exited with code 3 while method "encode" was pending',
+    });
+    await expect(encoder.encode()).rejects.toMatchObject({ code: 'IPC_HOST_EXITED' });
+  });
+
+  it('should reject pending calls when the service host emits an error', async () => {
+    let encoding = false;
+    class EncoderService {
+      encode() {
+        encoding = true;
+        return new Promise(() => undefined);
+      }
+    }
+
+    const { host, hostPort, fail } = createInProcessHost();
+    hostIPC(EncoderService, { port: hostPort });
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    await exposeHostedIPC(host, 'Encoder', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+
+    const encoder = resolveIPC<EncoderService>('Encoder');
+    const pending = encoder.encode();
+    await vi.waitFor(() => expect(encoding).toBe(true));
+    fail(new Error('codec crashed'));
+
+    await expect(pending).rejects.toMatchObject({
+      code: 'IPC_HOST_EXITED',
+      message: '[electron-ipc] Host of service "Encoder" failed: codec crashed while method "encode" was pending',
+    });
+    await expect(encoder.encode()).rejects.toMatchObject({ code: 'IPC_HOST_EXITED' });
+  });
+
+  it('should reject exposeHostedIPC when the host never reports ready', async () => {
+    vi.useFakeTimers();
+    try {
+      const { host } = createInProcessHost();
+      const harness = createBoundaryHarness();
+      const exposed = exposeHostedIPC(host, 'Silent', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+      const assertion = expect(exposed).rejects.toThrow('[electron-ipc] Service host did not report ready within 10000ms');
+      await vi.advanceTimersByTimeAsync(10_000);
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should let main call services exposed by a renderer and await their results', async () => {
+    class EditorState {
+      unsavedCount = 2;
+
+      async hasUnsavedChanges(documentId: string) {
+        return `${documentId}: ${this.unsavedCount}`;
+      }
+
+      save(): void {
+        throw new IPCError('disk is read-only', { code: 'READ_ONLY' });
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const unexpose = exposeRendererIPC(new EditorState(), 'EditorState');
+
+    const editor = resolveRendererIPC<EditorState>(harness.sender, 'EditorState', {}, { ipcMain: harness.ipcMain });
+    await expect(editor.hasUnsavedChanges('doc-1')).resolves.toBe('doc-1: 2');
+    await expect(editor.save()).rejects.toMatchObject({
+      code: 'READ_ONLY',
+      message: '[electron-ipc] Service "EditorState" method "save" failed: disk is read-only',
+    });
+    await expect((editor as unknown as { constructor(): Promise<void> }).constructor()).rejects.toMatchObject({
+      code: 'IPC_METHOD_NOT_FOUND',
+    });
+
+    unexpose();
+    await expect(editor.hasUnsavedChanges('doc-1')).rejects.toMatchObject({
+      code: 'IPC_SERVICE_NOT_FOUND',
+      message: '[electron-ipc] Renderer service "EditorState" is not registered',
+    });
+  });
+
+  it('should answer renderer calls to a page that never exposed a service', async () => {
+    const harness = createBoundaryHarness();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+
+    const prompt = resolveRendererIPC<{ confirmQuit(): boolean }>(harness.sender, 'QuitPrompt', {}, {
+      ipcMain: harness.ipcMain,
+    });
+    await expect(prompt.confirmQuit()).rejects.toMatchObject({
+      code: 'IPC_SERVICE_NOT_FOUND',
+      message: '[electron-ipc] Renderer service "QuitPrompt" is not registered',
+    });
+  });
+
+  it('should reject pending renderer calls when the webContents goes away or the call times out', async () => {
+    const harness = createBoundaryHarness({ sender: { id: 9 } });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    exposeRendererIPC({ confirmQuit: () => new Promise(() => undefined) }, 'QuitPrompt');
+
+    const prompt = resolveRendererIPC<{ confirmQuit(): boolean }>(harness.sender, 'QuitPrompt', {}, {
+      ipcMain: harness.ipcMain,
+    });
+    const pending = prompt.confirmQuit();
+    harness.sender.emit('destroyed');
+    await expect(pending).rejects.toMatchObject({
+      code: 'IPC_ABORTED',
+      message: '[electron-ipc] Renderer service "QuitPrompt" method "confirmQuit" was aborted: webContents 9 went away',
+    });
+
+    const impatient = resolveRendererIPC<{ confirmQuit(): boolean }>(harness.sender, 'QuitPrompt', { timeoutMs: 10 }, {
+      ipcMain: harness.ipcMain,
+    });
+    await expect(impatient.confirmQuit()).rejects.toMatchObject({ code: 'IPC_TIMEOUT' });
+  });
+
+  it('should pass function arguments to main as remote callbacks until the renderer releases them', async () => {
+    class WatchService {
+      watchers = new Set<(change: string) => unknown>();
+      released: string[] = [];
+
+      watch(path: string, onChange: (change: string) => unknown): number {
+        if (!this.watchers.has(onChange)) {
+          this.watchers.add(onChange);
+          onRemoteCallbackReleased(onChange, () => {
+            this.watchers.delete(onChange);
+            this.released.push(path);
+          });
+        }
+        return this.watchers.size;
+      }
+
+      async notify(change: string) {
+        return await Promise.all([...this.watchers].map((watcher) => watcher(change)));
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    const service = new WatchService();
+    exposeIPC(service, 'WatchService', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const watcher = resolveIPC<WatchService>('WatchService');
+
+    const changes: string[] = [];
+    const onChange = (change: string) => {
+      changes.push(change);
+      return change.length;
+    };
+    await expect(watcher.watch('/a', onChange)).resolves.toBe(1);
+    await expect(watcher.watch('/a', onChange)).resolves.toBe(1);
+    await expect(service.notify('created')).resolves.toEqual([7]);
+    expect(changes).toEqual(['created']);
+
+    const [remote] = service.watchers;
+    releaseIPCCallback(onChange);
+    await vi.waitFor(() => expect(service.released).toEqual(['/a']));
+    await expect(remote?.('deleted')).rejects.toMatchObject({
+      code: 'IPC_CALLBACK_RELEASED',
+      message: '[electron-ipc] Callback passed to service "WatchService" method "watch" was released',
+    });
+    expect(changes).toEqual(['created']);
+  });
+
+  it('should release remote callbacks when the renderer goes away or the service is done with them', async () => {
+    const received: unknown[] = [];
+    let callback: ((value: number) => unknown) | undefined;
+    const service = {
+      subscribe(onValue: (value: number) => unknown) {
+        callback = onValue;
+      },
+    };
+    const harness = createBoundaryHarness({ sender: { id: 4 } });
+    const unexpose = exposeIPC(service, 'Ticker', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const ticker = resolveIPC<typeof service>('Ticker');
+
+    await ticker.subscribe((value) => {
+      if (value < 0) {
+        throw new Error('negative');
+      }
+      received.push(value);
+    });
+    await callback?.(1);
+    await expect(callback?.(-1)).rejects.toThrow(
+      '[electron-ipc] Callback passed to service "Ticker" method "subscribe" failed: negative',
+    );
+
+    const first = callback as (value: number) => Promise<unknown>;
+    releaseRemoteCallback(first);
+    await expect(first(2)).rejects.toMatchObject({ code: 'IPC_CALLBACK_RELEASED' });
+
+    await ticker.subscribe((value) => received.push(value));
+    const second = callback as (value: number) => Promise<unknown>;
+    const releasedOnDestroy = vi.fn();
+    onRemoteCallbackReleased(second, releasedOnDestroy);
+    harness.sender.emit('destroyed');
+    expect(releasedOnDestroy).toHaveBeenCalledTimes(1);
+    await expect(second(3)).rejects.toMatchObject({ code: 'IPC_CALLBACK_RELEASED' });
+    expect(received).toEqual([1]);
+    await unexpose();
+  });
+
+  it('should release callbacks that were only passed to failed calls', async () => {
+    let stored: ((value: number) => Promise<unknown>) | undefined;
+    const service = {
+      watch(onValue: (value: number) => unknown, fail: boolean) {
+        stored = onValue as (value: number) => Promise<unknown>;
+        if (fail) {
+          throw new Error('not watching');
+        }
+      },
+    };
+    const harness = createBoundaryHarness({ sender: { id: 6 } });
+    const unexpose = exposeIPC(service, 'Watcher', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const watcher = resolveIPC<typeof service>('Watcher');
+    const received: number[] = [];
+    const onValue = (value: number) => {
+      received.push(value);
+    };
+
+    await expect(watcher.watch(onValue, true)).rejects.toThrow('not watching');
+    await expect(stored?.(1)).rejects.toMatchObject({ code: 'IPC_CALLBACK_RELEASED' });
+
+    await watcher.watch(onValue, false);
+    await expect(watcher.watch(onValue, true)).rejects.toThrow('not watching');
+    await stored?.(2);
+    expect(received).toEqual([2]);
+    await unexpose();
+  });
+
+  it('should keep a callback passed to two services until both are done with it', async () => {
+    const callbacks: Record<string, (value: number) => Promise<unknown>> = {};
+    const createService = (name: string) => ({
+      watch(onValue: (value: number) => unknown) {
+        callbacks[name] = onValue as (value: number) => Promise<unknown>;
+      },
+    });
+    const harness = createBoundaryHarness({ sender: { id: 5 } });
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    const unexposeA = exposeIPC(createService('A'), 'A', deps);
+    const unexposeB = exposeIPC(createService('B'), 'B', deps);
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const received: number[] = [];
+    const onValue = (value: number) => {
+      received.push(value);
+    };
+
+    await resolveIPC<ReturnType<typeof createService>>('A').watch(onValue);
+    await resolveIPC<ReturnType<typeof createService>>('B').watch(onValue);
+    await unexposeA();
+    await callbacks.B?.(1);
+    expect(received).toEqual([1]);
+
+    await unexposeB();
+    await expect(callbacks.B?.(2)).rejects.toMatchObject({
+      code: 'IPC_CALLBACK_RELEASED',
+      message: '[electron-ipc] Callback passed to service "B" method "watch" was released',
+    });
+  });
+
+  it('should replay the latest sticky event values to new renderer subscriptions, including after a reload', async () => {
+    type StatusEvents = { status: string; log: string };
+    class StatusService extends IPCService<StatusEvents> {
+      constructor() {
+        super();
+        this.replayEvent('status');
+      }
+
+      set(status: string): void {
+        this.emit('status', status);
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    const service = new StatusService();
+    exposeIPC(service, 'StatusService', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    service.set('idle');
+    service.set('busy');
+    service.emit('log', 'not sticky');
+
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const status = resolveIPC<StatusService>('StatusService');
+    const first: string[] = [];
+    const logs: string[] = [];
+    status.on('status', (value) => first.push(value));
+    status.on('log', (value) => logs.push(value));
+    expect(first).toEqual(['busy']);
+    expect(logs).toEqual([]);
+
+    await status.set('done');
+    const second: string[] = [];
+    status.on('status', (value) => second.push(value));
+    await Promise.resolve();
+    expect(first).toEqual(['busy', 'done']);
+    expect(second).toEqual(['done']);
+
+    harness.sender.emit('did-navigate', 'app://test/index.html');
+    resetRendererBridgeForTests();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const reloaded: string[] = [];
+    resolveIPC<StatusService>('StatusService').on('status', (value) => reloaded.push(value));
+    expect(reloaded).toEqual(['done']);
+  });
+
+  it('should keep N replayed values per webContents, honoring targeted emits', () => {
+    const service = new IPCService<{ log: string }>().replayEvent('log', 2);
+    service.emit('log', 'a');
+    service.emitTo(7, 'log', 'b');
+    service.emit('log', 'c');
+    service.emitTo(8, 'log', 'd');
+
+    expect(service.getReplay('log', 1)).toEqual({ limit: 2, payloads: ['a', 'c'] });
+    expect(service.getReplay('log', 7)).toEqual({ limit: 2, payloads: ['b', 'c'] });
+    expect(service.getReplay('log', 8)).toEqual({ limit: 2, payloads: ['c', 'd'] });
+
+    service.emit('log', 'e');
+    service.emit('log', 'f');
+    expect(service.getReplay('log', 7)).toEqual({ limit: 2, payloads: ['e', 'f'] });
+    expect(service.replayEvent('log', 0).getReplay('log', 7)).toEqual({ limit: 0, payloads: [] });
+  });
+
+  it('should sync service state to renderer stores as a snapshot followed by ordered patches', async () => {
+    type Settings = { theme: string; fontSize: number };
+    class SettingsService extends IPCService<EventMap, Settings> {
+      constructor() {
+        super();
+        this.initState({ theme: 'light', fontSize: 12 });
+      }
+
+      setTheme(theme: string): void {
+        this.setState({ theme });
+      }
+
+      grow(): void {
+        this.setState((state) => ({ fontSize: state.fontSize + 1 }));
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    const service = new SettingsService();
+    exposeIPC(service, 'SettingsService', { ipcMain: harness.ipcMain, eventBus: harness.eventBus });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const settings = resolveIPC<SettingsService>('SettingsService');
+    const store = getIPCStore(settings);
+
+    expect(store.getSnapshot()).toBeUndefined();
+    const onChange = vi.fn();
+    const unsubscribe = store.subscribe(onChange);
+    const initial = store.getSnapshot();
+    expect(initial).toEqual({ theme: 'light', fontSize: 12 });
+
+    await settings.setTheme('dark');
+    await settings.grow();
+    expect(store.getSnapshot()).toEqual({ theme: 'dark', fontSize: 13 });
+    expect(store.getSnapshot()).not.toBe(initial);
+    expect(onChange).toHaveBeenCalledTimes(3);
+    await expect(settings.getState()).resolves.toEqual({ theme: 'dark', fontSize: 13 });
+
+    (service as IPCService).emit('electron-ipc:state', { version: 99, patch: { theme: 'bogus' } });
+    expect(store.getSnapshot()).toEqual({ theme: 'dark', fontSize: 13 });
+
+    unsubscribe();
+    service.setTheme('high-contrast');
+    expect(store.getSnapshot()).toEqual({ theme: 'dark', fontSize: 13 });
+    store.subscribe(onChange);
+    expect(store.getSnapshot()).toEqual({ theme: 'high-contrast', fontSize: 13 });
+
+    harness.sender.emit('did-navigate', 'app://test/index.html');
+    resetRendererBridgeForTests();
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer });
+    const reloaded = getIPCStore(resolveIPC<SettingsService>('SettingsService'));
+    reloaded.subscribe(() => undefined);
+    expect(reloaded.getSnapshot()).toEqual({ theme: 'high-contrast', fontSize: 13 });
+  });
+
+  it('should connect services to several simulated windows and record calls and events', async () => {
+    class ChatService extends IPCService<{ message: string; typing: { from: number } }> {
+      async post(text: string) {
+        const callerId = getCallerContext()?.webContentsId;
+        this.emit('message', `${callerId}: ${text}`);
+        this.emitTo('caller', 'typing', { from: callerId ?? 0 });
+        return getCallerContext()?.origin;
+      }
+    }
+
+    const ipc = createTestIPC();
+    ipc.expose(ChatService);
+    const editor = ipc.createWindow({ url: 'app://editor/index.html' });
+    const preview = ipc.createWindow({ id: 7 });
+    const editorChat = editor.resolveIPC<ChatService>('ChatService');
+    const previewChat = preview.resolveIPC<ChatService>('ChatService');
+    const editorMessages: string[] = [];
+    const previewMessages: string[] = [];
+    const typing = vi.fn();
+    editorChat.on('message', (text) => editorMessages.push(text));
+    editorChat.on('typing', typing);
+    previewChat.on('message', (text) => previewMessages.push(text));
+
+    await expect(editorChat.post('hi')).resolves.toBe('app://editor');
+    await previewChat.post('hello');
+
+    expect(editor.id).toBe(1);
+    expect(editorMessages).toEqual(['1: hi', '7: hello']);
+    expect(previewMessages).toEqual(['1: hi', '7: hello']);
+    expect(typing).toHaveBeenCalledTimes(1);
+    expect(ipc.calls).toEqual([
+      { webContentsId: 1, serviceName: 'ChatService', methodName: 'post', args: ['hi'] },
+      { webContentsId: 7, serviceName: 'ChatService', methodName: 'post', args: ['hello'] },
+    ]);
+    expect(ipc.events.filter((event) => event.webContentsId === 7)).toEqual([
+      { webContentsId: 7, serviceName: 'ChatService', eventName: 'message', payload: '1: hi' },
+      { webContentsId: 7, serviceName: 'ChatService', eventName: 'message', payload: '7: hello' },
+    ]);
+  });
+
+  it('should simulate window destruction and reloads in the test harness', async () => {
+    let callSignal: AbortSignal | undefined;
+    const ipc = createTestIPC();
+    const service = new (class Feed extends IPCService<{ item: number }> {
+      wait() {
+        callSignal = getCallerContext()?.signal;
+        return new Promise(() => undefined);
+      }
+    })();
+    ipc.expose(service, 'Feed');
+    const window = ipc.createWindow();
+    const feed = window.resolveIPC<typeof service>('Feed');
+    const items: number[] = [];
+    feed.on('item', (item) => items.push(item));
+    service.emit('item', 1);
+
+    window.reload();
+    service.emit('item', 2);
+    expect(items).toEqual([1]);
+
+    const reloaded = window.resolveIPC<typeof service>('Feed');
+    reloaded.on('item', (item) => items.push(item));
+    const pending = reloaded.wait();
+    await vi.waitFor(() => expect(callSignal).toBeDefined());
+    window.destroy();
+    expect(callSignal?.aborted).toBe(true);
+    await expect(pending).rejects.toMatchObject({ code: 'IPC_ABORTED' });
+    service.emit('item', 3);
+    expect(items).toEqual([1]);
+    expect(ipc.windows).toEqual([]);
+    expect(() => window.resolveIPC('Feed')).toThrow();
+  });
+
+  it('should keep existing harnesses working when another harness is created', async () => {
+    class ProgressService {
+      async run(onProgress: (percent: number) => void) {
+        await onProgress(50);
+        return 'done';
+      }
+    }
+
+    const first = createTestIPC();
+    first.expose(ProgressService);
+    const firstWindow = first.createWindow();
+    const progress = vi.fn();
+    const firstService = firstWindow.resolveIPC<ProgressService>('ProgressService');
+    await expect(firstService.run(progress)).resolves.toBe('done');
+
+    const second = createTestIPC();
+    second.expose(ProgressService);
+    const secondWindow = second.createWindow();
+    await expect(secondWindow.resolveIPC<ProgressService>('ProgressService').run(() => undefined)).resolves.toBe('done');
+
+    await expect(firstService.run(progress)).resolves.toBe('done');
+    expect(progress.mock.calls).toEqual([[50], [50]]);
+    secondWindow.destroy();
+    await expect(firstService.run(progress)).resolves.toBe('done');
+  });
+
+  it('should keep services of registries with different namespaces apart on one ipcMain', async () => {
+    class SettingsService extends IPCService<{ changed: string }> {
+      readonly owner: string;
+
+      constructor(owner: string) {
+        super();
+        this.owner = owner;
+      }
+
+      get(key: string) {
+        this.emit('changed', key);
+        return `${this.owner}:${key}`;
+      }
+    }
+
+    const harness = createBoundaryHarness();
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    const libA = createIPCRegistry({ namespace: 'lib-a' });
+    const libB = createIPCRegistry({ namespace: 'lib-b' });
+    libA.exposeIPC(new SettingsService('a'), 'Settings', deps);
+    libB.exposeIPC(new SettingsService('b'), 'Settings', deps);
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer, namespace: 'lib-a' });
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer, namespace: 'lib-b' });
+
+    const settingsA = createRendererIPCRegistry({ namespace: 'lib-a' }).resolveIPC<SettingsService>('Settings');
+    const settingsB = createRendererIPCRegistry({ namespace: 'lib-b' }).resolveIPC<SettingsService>('Settings');
+    const changedA = vi.fn();
+    settingsA.on('changed', changedA);
+
+    await expect(settingsA.get('theme')).resolves.toBe('a:theme');
+    await expect(settingsB.get('font')).resolves.toBe('b:font');
+    expect(changedA.mock.calls).toEqual([['theme']]);
+    expect(() => resolveIPC('Settings')).toThrow('Call enableIPC() in preload first');
+    expect(() => createRendererIPCRegistry({ namespace: 'lib-c' }).resolveIPC('Settings'))
+      .toThrow('Call enableIPC({ namespace: "lib-c" }) in preload first');
+    await libA.unexposeIPC('Settings');
+    await expect(settingsB.get('font')).resolves.toBe('b:font');
+    expect(() => createIPCRegistry({ namespace: 'bad:name' })).toThrow('Invalid IPC namespace');
+  });
+
+  it('should leave ipcMain alone until a registry exposes a service or is asked to listen', async () => {
+    const harness = createBoundaryHarness();
+    const deps = { ipcMain: harness.ipcMain, eventBus: harness.eventBus };
+    const handle = vi.spyOn(harness.ipcMain, 'handle');
+    const plugin = createIPCRegistry({ namespace: 'plugin' });
+    expect(handle).not.toHaveBeenCalled();
+
+    plugin.listenIPC(deps);
+    plugin.listenIPC(deps);
+    enableIPC({ contextBridge: harness.contextBridge, ipcRenderer: harness.ipcRenderer, namespace: 'plugin' });
+    const pending = createRendererIPCRegistry({ namespace: 'plugin' }).waitForService('Sync', { waitForMs: 1_000 });
+    plugin.exposeIPC(new MyService(), 'Sync', deps);
+    await expect(pending).resolves.toBeUndefined();
+  });
+
+  it('should run a harness against its own namespace and read the shipped preload namespace from its arguments', async () => {
+    const ipc = createTestIPC({ namespace: 'plugin' });
+    ipc.expose(MyService);
+    const window = ipc.createWindow();
+    await expect(window.resolveIPC<IMyService>('MyService').sum(2, 3)).resolves.toBe(5);
+    expect(ipc.namespace).toBe('plugin');
+    expect(() => resolveIPC('MyService')).toThrow(/enableIPC/);
+
+    const exposed: string[] = [];
+    vm.runInNewContext(readFileSync(path.resolve(process.cwd(), 'src/preload.cjs'), 'utf8'), {
+      process: { argv: ['electron', '--electron-ipc-namespace=plugin'] },
+      require: () => ({
+        contextBridge: { exposeInMainWorld: (name: string) => exposed.push(name) },
+        ipcRenderer: { on: () => undefined },
+      }),
+    });
+    expect(exposed).toEqual(['ipcServiceBridge:plugin']);
+  });
+
+  it('should back renderer proxies with mockIPC() implementations and record their calls', async () => {
+    type UserEvents = { renamed: { name: string } };
+    interface IUserService extends IPCService<UserEvents> {
+      getName(id: number): Promise<string>;
+      remove(id: number): void;
+      rename(id: number, name: string): void;
+    }
+
+    const users = mockIPC<IUserService>('UserService', {
+      getName: async (id) => `user-${id}`,
+      rename() {
+        throw new IPCError('name taken', { code: 'NAME_TAKEN' });
+      },
+    });
+    const service = resolveIPC<IUserService>('UserService');
+
+    await expect(service.getName(1)).resolves.toBe('user-1');
+    await expect(resolveIPCAsync<IUserService>('UserService', { waitForMs: 10 })).resolves.toBeDefined();
+    await expect(service.remove(1)).rejects.toMatchObject({
+      code: 'IPC_METHOD_NOT_FOUND',
+      message: '[electron-ipc] Mock service "UserService" does not implement method "remove"',
+    });
+    await expect(service.rename(1, 'Ada')).rejects.toMatchObject({
+      code: 'NAME_TAKEN',
+      message: '[electron-ipc] Service "UserService" method "rename" failed: name taken',
+    });
+    expect(users.calls).toEqual([
+      { methodName: 'getName', args: [1] },
+      { methodName: 'remove', args: [1] },
+      { methodName: 'rename', args: [1, 'Ada'] },
+    ]);
+    expect(() => resolveIPC('Unmocked')).toThrow('[electron-ipc] Service "Unmocked" is not registered');
+    await expect(describeService('UserService')).resolves.toEqual({
+      name: 'UserService',
+      transport: 'ipc',
+      methods: [{ name: 'getName' }, { name: 'rename' }],
+      events: [],
+    });
+
+    const renamed: string[] = [];
+    const onRenamed = (payload: { name: string }) => renamed.push(payload.name);
+    const onceRenamed = vi.fn();
+    service.on('renamed', onRenamed);
+    service.once('renamed', onceRenamed);
+    expect(users.listenerCount('renamed')).toBe(1);
+    users.emit('renamed', { name: 'Ada' });
+    users.emit('renamed', { name: 'Grace' });
+    service.off('renamed', onRenamed);
+    users.emit('renamed', { name: 'Linus' });
+
+    expect(renamed).toEqual(['Ada', 'Grace']);
+    expect(onceRenamed).toHaveBeenCalledTimes(1);
+    expect(users.listenerCount('renamed')).toBe(0);
+
+    users.restore();
+    await expect(service.getName(2)).rejects.toMatchObject({ code: 'IPC_SERVICE_NOT_FOUND' });
+  });
+
+  it('should pass callbacks and stream results through mockIPC() implementations', async () => {
+    interface IWatchService {
+      watch(path: string, onChange: (change: string) => void): Promise<void>;
+      tail(): AsyncGenerator<string>;
+    }
+    mockIPC<IWatchService>('WatchService', {
+      async watch(path, onChange) {
+        await onChange(`${path} changed`);
+      },
+      async *tail() {
+        yield 'first';
+        yield 'second';
+      },
+    });
+    const watcher = resolveIPC<IWatchService>('WatchService');
+
+    const changes: string[] = [];
+    await watcher.watch('/tmp', (change) => changes.push(change));
+    expect(changes).toEqual(['/tmp changed']);
+
+    const lines: string[] = [];
+    for await (const line of await watcher.tail()) {
+      lines.push(line);
+    }
+    expect(lines).toEqual(['first', 'second']);
+  });
+
   it('should continue delivering an event to remaining listeners when one listener throws', () => {
     const instance = new IPCService<{ ping: { ok: boolean } }>();
     const safe = vi.fn();
@@ -2,6 +2,9 @@ import { expectTypeOf, it } from 'vitest';
 
 import type { AsyncService } from '../src/types.ts';
 import { IPCService } from '../src/main.ts';
+import type { getIPCStore, IPCMock, resolveIPCAsync } from '../src/renderer.ts';
+import { defineIPCSchemas } from '../src/schema.ts';
+import type { IPCSchemaMethods, StandardSchemaV1 } from '../src/schema.ts';
 
 type MyServiceEvents = {
   greeting: { text: string };
@@ -45,3 +48,108 @@ it('should reject invalid event payload property access at compile time in rende
     payload.missing;
   });
 });
+
+it('should narrow the renderer service type to the exposed method subset', () => {
+  interface IDocumentService extends IPCService<MyServiceEvents> {
+    open(path: string): string;
+    remove(path: string): void;
+  }
+  type RendererService = AsyncService<IDocumentService, 'open'>;
+
+  expectTypeOf<RendererService['open']>().parameters.toEqualTypeOf<[path: string]>();
+  expectTypeOf<RendererService['open']>().returns.toEqualTypeOf<Promise<string>>();
+  expectTypeOf<RendererService>().not.toHaveProperty('remove');
+  expectTypeOf<RendererService>().toHaveProperty('on');
+});
+
+it('should omit underscore-prefixed members from the renderer service type', () => {
+  interface IHelperService {
+    ping(): string;
+    _internal(): void;
+  }
+
+  expectTypeOf<AsyncService<IHelperService>>().toHaveProperty('ping');
+  expectTypeOf<AsyncService<IHelperService>>().not.toHaveProperty('_internal');
+});
+
+it('should map function-typed properties with specific parameters to async methods', () => {
+  type ISearchService = {
+    find: (query: string, limit: number) => string[];
+  };
+
+  expectTypeOf<AsyncService<ISearchService>['find']>().parameters.toEqualTypeOf<[query: string, limit: number]>();
+  expectTypeOf<AsyncService<ISearchService>['find']>().returns.toEqualTypeOf<Promise<string[]>>();
+});
+
+it('should derive renderer method types from declared Standard Schema argument and result schemas', () => {
+  const schemas = defineIPCSchemas({
+    methods: {
+      rename: {
+        args: [{} as StandardSchemaV1<string>, {} as StandardSchemaV1<{ force?: boolean }>],
+        result: {} as StandardSchemaV1<unknown, { renamed: boolean }>,
+      },
+    },
+  });
+  interface IFileService extends IPCService<MyServiceEvents>, IPCSchemaMethods<typeof schemas.methods> {}
+  type RendererService = AsyncService<IFileService>;
+
+  expectTypeOf<RendererService['rename']>().parameters.toEqualTypeOf<[string, { force?: boolean }]>();
+  expectTypeOf<RendererService['rename']>().returns.toEqualTypeOf<Promise<{ renamed: boolean }>>();
+});
+
+it('should map async iterable service methods to remote async iterators', () => {
+  interface ILogService {
+    tail(lines: number): AsyncGenerator<string>;
+    search(query: string): Promise<AsyncIterable<{ path: string }>>;
+  }
+  type RendererService = AsyncService<ILogService>;
+
+  expectTypeOf<RendererService['tail']>().returns.toEqualTypeOf<Promise<AsyncIterableIterator<string>>>();
+  expectTypeOf<RendererService['search']>().returns.toEqualTypeOf<Promise<AsyncIterableIterator<{ path: string }>>>();
+});
+
+it('should hide replay configuration methods from renderer service proxies', () => {
+  type RendererService = AsyncService<IMyService>;
+
+  expectTypeOf<RendererService>().not.toHaveProperty('replayEvent');
+  expectTypeOf<RendererService>().not.toHaveProperty('getReplay');
+  expectTypeOf<RendererService>().toHaveProperty('hello');
+});
+
+it('should hide event emitters from renderer service proxies but keep listeners', () => {
+  type RendererService = AsyncService<IMyService>;
+
+  expectTypeOf<RendererService>().not.toHaveProperty('emit');
+  expectTypeOf<RendererService>().not.toHaveProperty('emitTo');
+  expectTypeOf<RendererService>().not.toHaveProperty('setEmitHook');
+  expectTypeOf<RendererService>().toHaveProperty('on');
+  expectTypeOf<RendererService>().toHaveProperty('once');
+  expectTypeOf<RendererService>().toHaveProperty('off');
+});
+
+it('should infer the synchronized state type for renderer stores', () => {
+  type Settings = { theme: 'light' | 'dark' };
+  interface ISettingsService extends IPCService<MyServiceEvents, Settings> {
+    setTheme(theme: Settings['theme']): void;
+  }
+  type RendererService = AsyncService<ISettingsService>;
+
+  expectTypeOf<ReturnType<typeof getIPCStore<RendererService>>['getSnapshot']>().returns.toEqualTypeOf<
+    Settings | undefined
+  >();
+  expectTypeOf<RendererService['getState']>().returns.toEqualTypeOf<Promise<Settings>>();
+  expectTypeOf<RendererService>().not.toHaveProperty('setState');
+});
+
+it('should resolve resolveIPCAsync() to the same proxy type as resolveIPC()', () => {
+  expectTypeOf<ReturnType<typeof resolveIPCAsync<IMyService>>>().toEqualTypeOf<Promise<AsyncService<IMyService>>>();
+  expectTypeOf<ReturnType<typeof resolveIPCAsync<IMyService>>>().resolves.not.toHaveProperty('then');
+});
+
+it('should type mockIPC() implementations and emitted events from the service interface', () => {
+  type Mock = IPCMock<IMyService>;
+
+  expectTypeOf<Mock['impl']>().toEqualTypeOf<Partial<IMyService>>();
+  expectTypeOf<Parameters<Mock['emit']>>().toEqualTypeOf<[eventName: 'greeting', payload: { text: string }]>();
+  expectTypeOf<Mock['calls'][number]['methodName']>().toExtend<keyof IMyService>();
+});